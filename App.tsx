@@ -5,6 +5,7 @@ import {
   SafeAreaView,
   ScrollView,
   Text,
+  TextInput,
   TouchableOpacity,
   TouchableWithoutFeedback,
   View,
@@ -14,44 +15,149 @@ import Slider from "@react-native-community/slider";
 import { Ionicons } from "@expo/vector-icons";
 import * as Notifications from "expo-notifications";
 import * as DocumentPicker from "expo-document-picker";
-import * as FileSystem from "expo-file-system";
 import { Audio } from "expo-av";
 
 import {
   Night,
   DerivedNight,
+  MoodKey,
+  MoodEntry,
+  EpisodeKind,
   readRaw as readNightsRaw,
   writeRaw as writeNightsRaw,
+  upsertNight,
+  deleteNight,
+  readMoods,
+  appendMood,
+  deleteMood,
+  readSettings,
+  updateSettings,
+  readDecisions,
+  writeDecisions,
+  readInbox,
+  updateInbox,
   clearAll,
+  initStorage,
   storageKind,
+  readSnapshot,
+  restoreSnapshot,
+  Settings,
 } from "./storage";
+import {
+  MINUTES_PER_DAY,
+  SUMMARY_OPTION_RANGES,
+  SummaryOptions,
+  clockDiff,
+  deriveAll,
+  fmtHM,
+  fmtMinutesAsHours,
+  nextEpochAtClock,
+  nightFromMidsleep,
+  nightKey,
+  resolveSummaryOptions,
+  summarize,
+  toMinutes,
+} from "./sleepAnalytics";
+import { ISSUE_LABELS, checkQuality } from "./dataQuality";
+import {
+  DEFAULT_FREE_DAYS,
+  WEEKDAY_SHORT,
+  socialJetlag,
+} from "./socialJetlag";
+import { ImportReport, RowStatus, nightsFromReport } from "./csvImport";
+import { buildImportReport, combineReports } from "./importers";
+import { readPickedText, saveTextFiles } from "./files";
+import { buildExportFiles, buildTrialExportFiles } from "./exportData";
+import {
+  RestorePreview,
+  backupFileName,
+  buildBackup,
+  parseBackup,
+  previewRestore,
+} from "./backup";
+import type { StoredDoc } from "./schema";
+import {
+  NightDraft,
+  draftFromNight,
+  emptyDraft,
+  nightFromDraft,
+} from "./nightEntry";
+import { QUALITY_LABELS } from "./sleepDiary";
+import {
+  ZoneRef,
+  clockOf,
+  deviceTimeZone,
+  localMinutes,
+} from "./timezone";
+import {
+  NUDGE_OPTION_RANGES,
+  NudgeOptions,
+  PlannedNudge,
+  baselineBedtime,
+  eveningOf,
+  nudgeOptionsFromSettings,
+  planKey,
+  planNudges,
+  resolveNudgeOptions,
+} from "./bedtimeNudges";
+import { syncNudges } from "./notifications";
+import {
+  TRIAL_OPTION_RANGES,
+  TrialDecision,
+  TrialOptions,
+  applyTrial,
+  armCounts,
+  decisionsFromPlan,
+  manualDecision,
+  mergeDecisions,
+  newTrialSeed,
+  resolveTrialOptions,
+  trialOptionsFromSettings,
+} from "./microTrial";
+import {
+  CHANNEL_LABELS,
+  InboxEntry,
+  ORIGIN_LABELS,
+  addEntry,
+  entriesFromPlan,
+  inboxEntry,
+  markOpened,
+  mergeInbox,
+  sentEntries,
+} from "./nudgeInbox";
+import { RISK_TIERS, riskLabel } from "./riskTiers";
+import {
+  DEFAULT_CATALOG,
+  PLACEHOLDERS,
+  SITUATIONS,
+  catalogFileName,
+  parseCatalog,
+  renderNudge,
+  renderTemplate,
+  situationLabel,
+  templatesFor,
+} from "./nudgeTemplates";
+import {
+  DEFAULT_SEED,
+  SCENARIOS,
+  SCENARIO_DAYS,
+  SCENARIO_IDS,
+  SCENARIO_NOISE_RANGES,
+  ScenarioId,
+  ScenarioNoise,
+  generateNights,
+} from "./scenarios";
+import {
+  ConflictChoice,
+  MergePlan,
+  mergeOps,
+  newMoods,
+  planMerge,
+  resolveConflict,
+} from "./importMerge";
 
 /* ---------------- mood types / constants ---------------- */
 
-type MoodKey =
-  | "bright"
-  | "grateful"
-  | "proud"
-  | "excited"
-  | "focused"
-  | "calm"
-  | "relaxed"
-  | "okay"
-  | "tired"
-  | "drained"
-  | "sad"
-  | "anxious"
-  | "stressed"
-  | "lonely"
-  | "angry"
-  | "overwhelmed";
-
-type MoodEntry = {
-  id: string;
-  mood: MoodKey;
-  at: string; // ISO timestamp
-};
-
 type MoodMeta = {
   key: MoodKey;
   title: string;
@@ -178,9 +284,74 @@ const MOODS: MoodMeta[] = [
 /* ---------------- sleep constants ---------------- */
 
 const SOOTHING_TRACK = require("./assets/nudgekitbackgroundmusic.mp3");
-const BASELINE_WINDOW_DAYS = 7;
-const DRIFT_THRESHOLD_MIN = 90; // 90+ min away from baseline = high risk
-const DRIFT_THRESHOLD_HOURS = DRIFT_THRESHOLD_MIN / 60;
+
+/* ---------------- import constants ---------------- */
+
+const IMPORT_STATUS_COLORS: Record<RowStatus, string> = {
+  accepted: "#4ade80",
+  suspicious: "#fbbf24",
+  skipped: "#ff7a7a",
+};
+
+const EPISODE_CHOICES: { episode: EpisodeKind | null; label: string }[] = [
+  { episode: null, label: "Decide for me" },
+  { episode: "main", label: "Main sleep" },
+  { episode: "nap", label: "Nap" },
+];
+
+const CONFLICT_CHOICES: { choice: ConflictChoice; label: string }[] = [
+  { choice: "keep_existing", label: "Keep existing" },
+  { choice: "take_imported", label: "Take imported" },
+  { choice: "keep_both", label: "Keep both" },
+];
+
+// Demo scenario noise, in the order the dashboard shows it
+const NOISE_STEPPERS: {
+  key: keyof ScenarioNoise;
+  label: string;
+  display: (value: number) => string;
+}[] = [
+  {
+    key: "timingNoiseMin",
+    label: "Bedtime noise",
+    display: (v) => `±${v} min`,
+  },
+  {
+    key: "durationNoiseMin",
+    label: "Sleep length noise",
+    display: (v) => `±${v} min`,
+  },
+  {
+    key: "missingRate",
+    label: "Nights not logged",
+    display: (v) => `${Math.round(v * 100)}%`,
+  },
+  {
+    key: "napRate",
+    label: "Afternoon naps",
+    display: (v) => `${Math.round(v * 100)}%`,
+  },
+];
+
+/* ---------------- backup constants ---------------- */
+
+const SETTING_LABELS: Record<keyof Settings, string> = {
+  musicOn: "music on/off",
+  musicVolume: "music volume",
+  freeDays: "free days",
+  baselineWindowDays: "baseline window",
+  driftThresholdMin: "drift threshold",
+  minCoverage: "minimum coverage",
+  excludeFlaggedNights: "flagged nights in baseline",
+  nudgesOn: "bedtime nudges on/off",
+  nudgeLeadMin: "wind-down lead time",
+  nudgeDays: "days of nudges scheduled",
+  nudgeTemplates: "nudge templates",
+  trialOn: "trial mode on/off",
+  trialSeed: "trial seed",
+  trialNudgePct: "trial chance of the usual nudge",
+  trialAlternatePct: "trial chance of the alternate",
+};
 
 /* ---------------- UI helpers ---------------- */
 
@@ -239,6 +410,45 @@ const LinkButton: React.FC<{
   </TouchableOpacity>
 );
 
+// Labelled single-line text input
+const Field: React.FC<{
+  label: string;
+  value: string;
+  placeholder?: string;
+  onChangeText: (value: string) => void;
+}> = ({ label, value, placeholder, onChangeText }) => (
+  <View style={{ marginBottom: 12 }}>
+    <Text
+      style={{
+        color: "#cbd5e1",
+        fontSize: 13,
+        fontWeight: "600",
+        marginBottom: 4,
+      }}
+    >
+      {label}
+    </Text>
+    <TextInput
+      value={value}
+      placeholder={placeholder}
+      placeholderTextColor="#64748b"
+      onChangeText={onChangeText}
+      autoCapitalize="none"
+      autoCorrect={false}
+      style={{
+        color: "#e5e7eb",
+        fontSize: 16,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 10,
+        borderWidth: 1,
+        borderColor: "rgba(148,163,184,0.5)",
+        backgroundColor: "rgba(15,23,42,0.8)",
+      }}
+    />
+  </View>
+);
+
 const Card: React.FC<{ children: React.ReactNode; pad?: boolean }> = ({
   children,
   pad = true,
@@ -261,6 +471,61 @@ const Card: React.FC<{ children: React.ReactNode; pad?: boolean }> = ({
   </View>
 );
 
+const Stepper: React.FC<{
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, display, min, max, step, onChange }) => {
+  const button = (icon: "remove" | "add", next: number, enabled: boolean) => (
+    <TouchableOpacity
+      disabled={!enabled}
+      onPress={() => onChange(next)}
+      hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+      style={{
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        alignItems: "center",
+        justifyContent: "center",
+        backgroundColor: "rgba(59,130,246,0.22)",
+        opacity: enabled ? 1 : 0.35,
+      }}
+    >
+      <Ionicons name={icon} size={16} color="#e5e7eb" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View
+      style={{
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "space-between",
+        marginBottom: 8,
+      }}
+    >
+      <Text style={{ color: "#cbd5e1", fontSize: 12, flex: 1 }}>{label}</Text>
+      {button("remove", value - step, value - step >= min)}
+      <Text
+        style={{
+          color: "#e5e7eb",
+          fontSize: 13,
+          fontWeight: "700",
+          width: 64,
+          textAlign: "center",
+        }}
+      >
+        {display}
+      </Text>
+      {button("add", value + step, value + step <= max)}
+    </View>
+  );
+};
+
 /* ---------------- notifications ---------------- */
 
 Notifications.setNotificationHandler({
@@ -276,169 +541,20 @@ Notifications.setNotificationHandler({
 
 /* ---------------- tiny sleep helpers ---------------- */
 
-const toMinutes = (d: Date) => Math.floor(d.getTime() / 60000);
-const fromISO = (s: string) => new Date(s);
-
-const fmtHM = (m: number | null) => {
-  if (m == null) return "n/a";
-  const h24 = Math.floor((m / 60) % 24);
-  const mm = Math.abs(Math.floor(m % 60));
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h = ((h24 + 11) % 12) + 1;
-  return `${h}:${mm.toString().padStart(2, "0")} ${ampm}`;
-};
-
-const fmtMinutesAsHours = (m: number | null) => {
-  if (m == null) return "n/a";
-  const hours = m / 60;
-  const absHours = Math.abs(hours);
-  const rounded = Math.round(absHours * 10) / 10;
-  return `${rounded.toFixed(1)} h`;
-};
-
 const fmtDate = (iso: string) => new Date(iso).toLocaleDateString();
 
-const fmtClock = (iso: string) =>
-  new Date(iso).toLocaleTimeString([], {
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-
-function derive(n: Night): DerivedNight {
-  const start = fromISO(n.sleep_start);
-  const end = fromISO(n.sleep_end);
-  const startMin = toMinutes(start);
-  const endMin = toMinutes(end);
-  const duration_min = Math.max(0, endMin - startMin);
-  const midsleep_min_epoch = startMin + Math.floor(duration_min / 2);
-  return { ...n, duration_min, midsleep_min_epoch };
-}
-
-function summarize(derived: DerivedNight[]) {
-  const lastN = derived.slice(0, BASELINE_WINDOW_DAYS);
-  const coverage = lastN.length;
-
-  const baselineMid =
-    coverage > 0
-      ? Math.floor(
-          lastN.reduce((s, d) => s + d.midsleep_min_epoch, 0) / coverage
-        )
-      : null;
-
-  const last = lastN[0];
-  const recentLateness =
-    baselineMid != null && last ? last.midsleep_min_epoch - baselineMid : 0;
-
-  const regularityLoss =
-    coverage > 1
-      ? lastN
-          .map((d) =>
-            Math.abs(
-              d.midsleep_min_epoch - (baselineMid ?? d.midsleep_min_epoch)
-            )
-          )
-          .reduce((a, b) => a + b, 0)
-      : 0;
-
-  const drift =
-    baselineMid != null && Math.abs(recentLateness) >= DRIFT_THRESHOLD_MIN;
-
-  return {
-    coverage,
-    baselineMid,
-    recentLateness,
-    regularityLoss,
-    drift,
-  };
-}
-
-/* ---------------- CSV import helpers ---------------- */
-
-function parseCsvToNights(csv: string): Night[] {
-  const lines = csv
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter((l) => l.length > 0);
-
-  if (lines.length <= 1) {
-    throw new Error("CSV file has no data rows.");
-  }
-
-  const header = lines[0]
-    .split(",")
-    .map((h) => h.trim().toLowerCase());
-
-  const idxDate = header.indexOf("date");
-  const idxStart = header.indexOf("sleep_start");
-  const idxEnd = header.indexOf("sleep_end");
-
-  if (idxDate === -1 || idxStart === -1 || idxEnd === -1) {
-    throw new Error(
-      "CSV must have columns: date,sleep_start,sleep_end (any order)."
-    );
-  }
-
-  const nights: Night[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const row = lines[i];
-    if (!row) continue;
-    const parts = row.split(",");
-    if (parts.length < header.length) continue;
-
-    const date = parts[idxDate]?.trim();
-    const sleep_start = parts[idxStart]?.trim();
-    const sleep_end = parts[idxEnd]?.trim();
-
-    if (!date || !sleep_start || !sleep_end) continue;
-
-    nights.push({ date, sleep_start, sleep_end });
-  }
-
-  if (nights.length === 0) {
-    throw new Error("No valid rows found in CSV.");
-  }
-  return nights;
-}
-
-/* ---------------- fake data helpers ---------------- */
-
-function makeFake(
-  dayOffset: number,
-  baseHM = { h: 4, m: 30 },
-  driftMin = 0
-): Night {
-  const today = new Date();
-  today.setDate(today.getDate() - dayOffset);
-  const date = today.toISOString().slice(0, 10);
-
-  const start = new Date(
-    `${date}T${String(baseHM.h).padStart(2, "0")}:${String(
-      baseHM.m
-    ).padStart(2, "0")}:00.000Z`
-  );
-  const end = new Date(start.getTime() + (8 * 60 + driftMin) * 60000);
-  return {
-    date,
-    sleep_start: start.toISOString(),
-    sleep_end: end.toISOString(),
-  };
-}
-
-// Create a synthetic night centered on a given midsleep with offset
-function nightFromMidsleep(
-  midsleepMinEpoch: number,
-  offsetMinutes: number
-): Night {
-  const midsleep = new Date((midsleepMinEpoch + offsetMinutes) * 60000);
-  const start = new Date(midsleep.getTime() - 4 * 60 * 60000);
-  const end = new Date(midsleep.getTime() + 4 * 60 * 60000);
-  const date = start.toISOString().slice(0, 10);
-  return {
-    date,
-    sleep_start: start.toISOString(),
-    sleep_end: end.toISOString(),
-  };
+// Clock time on the zone the night was slept in
+const fmtClock = (iso: string, zone: ZoneRef) =>
+  fmtHM(clockOf(localMinutes(new Date(iso), zone)));
+
+// Zone label shown next to nights slept away from the device's zone
+function zoneNote(n: ZoneRef): string {
+  if (n.tz) return n.tz === deviceTimeZone() ? "" : ` (${n.tz})`;
+  if (n.utc_offset_min == null) return "";
+  const sign = n.utc_offset_min < 0 ? "-" : "+";
+  const abs = Math.abs(n.utc_offset_min);
+  const mm = abs % 60 ? `:${String(abs % 60).padStart(2, "0")}` : "";
+  return ` (UTC${sign}${Math.floor(abs / 60)}${mm})`;
 }
 
 /* ---------------- App ---------------- */
@@ -462,8 +578,43 @@ export default function App() {
 
   // settings + background music state
   const [isSettingsOpen, setIsSettingsOpen] = React.useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = React.useState(false);
+  const [importReport, setImportReport] =
+    React.useState<ImportReport | null>(null);
+  const [includeSuspicious, setIncludeSuspicious] = React.useState(true);
+  const [mergePlan, setMergePlan] = React.useState<MergePlan | null>(null);
+  const [nightForm, setNightForm] = React.useState<{
+    draft: NightDraft;
+    editing: Night | null; // null when adding a new night
+    error: string | null;
+  } | null>(null);
+  const [pendingRestore, setPendingRestore] = React.useState<{
+    doc: StoredDoc;
+    preview: RestorePreview;
+  } | null>(null);
   const [isMusicOn, setIsMusicOn] = React.useState(true); // default ON
   const [musicVolume, setMusicVolume] = React.useState(0.5);
+  const [freeDays, setFreeDays] = React.useState<number[]>(DEFAULT_FREE_DAYS);
+  const [summaryOpts, setSummaryOpts] = React.useState<SummaryOptions>({});
+  const [nudgeOpts, setNudgeOpts] = React.useState<NudgeOptions>({});
+  const [trialOpts, setTrialOpts] = React.useState<TrialOptions>({});
+  const [decisions, setDecisions] = React.useState<TrialDecision[]>([]);
+  const [inbox, setInbox] = React.useState<InboxEntry[]>([]);
+  const [isInboxOpen, setIsInboxOpen] = React.useState(false);
+  const [openEntry, setOpenEntry] = React.useState<string | null>(null);
+  // nothing is (re)scheduled until stored nights and settings are loaded
+  const [loaded, setLoaded] = React.useState(false);
+  const [demo, setDemo] = React.useState<{
+    scenario: ScenarioId;
+    days: number;
+    seed: number;
+    noise: ScenarioNoise; // the scenario's defaults until changed
+  }>({
+    scenario: "steady",
+    days: SCENARIO_DAYS.default,
+    seed: DEFAULT_SEED,
+    noise: SCENARIOS.steady.defaults,
+  });
   const musicSoundRef = React.useRef<Audio.Sound | null>(null);
   const hasKickstartedRef = React.useRef(false);
 
@@ -697,29 +848,83 @@ export default function App() {
           importance: Notifications.AndroidImportance.DEFAULT,
         });
       }
-      await refresh();
+      try {
+        await initStorage();
+        await refresh();
+      } catch (err) {
+        console.error(err);
+        Alert.alert(
+          "Loading data failed",
+          err instanceof Error ? err.message : "Unknown error."
+        );
+        // the app still opens, with nothing loaded
+        setLoaded(true);
+      }
     })();
   }, []);
 
-  const derived: DerivedNight[] = nights
-    .map(derive)
-    .sort((a, b) => b.midsleep_min_epoch - a.midsleep_min_epoch); // most recent first
-
-  const stats = summarize(derived);
-
-  const riskLabel =
-    stats.coverage < 3
-      ? "Insufficient data (need ≥ 3 nights)"
-      : stats.drift
-      ? "HIGH (nudge would fire)"
-      : "LOW";
-
-  const riskColor =
-    stats.coverage < 3 ? "#e5e7eb" : stats.drift ? "#ff7a7a" : "#4ade80";
+  const allDerived = deriveAll(nights);
+  const stats = summarize(allDerived, summaryOpts, checkQuality(allDerived));
+  const windowDays = stats.windowDays;
+  const derived: DerivedNight[] = stats.nights; // most recent first
+  // the main sleeps the baseline midsleep is computed from
+  const baselineNights = new Set(stats.baseline);
+
+  const riskText = riskLabel(stats);
+  const jetlag = socialJetlag(derived, freeDays);
+
+  // Recurring bedtime nudges, rescheduled whenever the plan changes. In
+  // trial mode each evening is randomized, and the decisions are logged
+  // once they are on the device.
+  const nudgeSettings = resolveNudgeOptions(nudgeOpts);
+  const trialSettings = resolveTrialOptions(trialOpts);
+  const nudgePlan = applyTrial(
+    planNudges(stats, nudgeOpts),
+    stats,
+    nudgeOpts,
+    trialOpts
+  );
+  const nudgeKey = planKey(nudgePlan);
+  React.useEffect(() => {
+    if (!loaded || perm !== "granted") return;
+    syncNudges(nudgePlan)
+      .then(async () => {
+        if (Platform.OS === "web") return;
+        await logPlannedDecisions(nudgePlan);
+        await logPlannedNudges(nudgePlan);
+      })
+      .catch((e) => console.warn("Scheduling bedtime nudges failed:", e));
+  }, [nudgeKey, perm, loaded]);
+
+  // Tapping a notification marks its inbox entry opened, including the tap
+  // that launched the app
+  React.useEffect(() => {
+    if (!loaded || Platform.OS === "web") return;
+    const opened = (r: Notifications.NotificationResponse) =>
+      markNudgeOpened(r.notification.request.identifier).catch((e) =>
+        console.warn("Marking a nudge opened failed:", e)
+      );
+    Notifications.getLastNotificationResponseAsync().then(
+      (r) => r && opened(r)
+    );
+    const sub = Notifications.addNotificationResponseReceivedListener(opened);
+    return () => sub.remove();
+  }, [loaded]);
+
+  const riskColor = RISK_TIERS[stats.risk].color;
+
+  // What tonight's nudge says, worded by the template catalog
+  const tonight = eveningOf(new Date());
+  const tonightsNudge = renderNudge(
+    stats,
+    tonight,
+    { bedtimeClock: baselineBedtime(stats) },
+    nudgeSettings.templates
+  );
 
   /* ----- mood helpers ----- */
 
-  const recordMood = (key: MoodKey) => {
+  const recordMood = async (key: MoodKey) => {
     const entry: MoodEntry = {
       id: `${Date.now()}-${Math.random().toString(16).slice(2)}`,
       mood: key,
@@ -727,6 +932,20 @@ export default function App() {
     };
     setMoodEntries((prev) => [entry, ...prev]);
     setMoodScreen("summary");
+    try {
+      await appendMood(entry);
+    } catch (e) {
+      console.warn("Saving mood check-in failed:", e);
+    }
+  };
+
+  const removeMood = async (id: string) => {
+    setMoodEntries((prev) => prev.filter((m) => m.id !== id));
+    try {
+      await deleteMood(id);
+    } catch (e) {
+      console.warn("Deleting mood check-in failed:", e);
+    }
   };
 
   const moodCountsForWindow = (days: number): Record<MoodKey, number> => {
@@ -764,219 +983,741 @@ export default function App() {
   /* ----- sleep actions ----- */
 
   const refresh = async () => {
-    const raw = await readNightsRaw();
+    const [raw, moods, settings, log, sent] = await Promise.all([
+      readNightsRaw(),
+      readMoods(),
+      readSettings(),
+      readDecisions(),
+      readInbox(),
+    ]);
     setNights(raw);
+    setMoodEntries(moods);
+    setDecisions(log);
+    setInbox(sent);
+    setFreeDays(settings.freeDays ?? DEFAULT_FREE_DAYS);
+    setIsMusicOn(settings.musicOn ?? true);
+    setMusicVolume(settings.musicVolume ?? 0.5);
+    setSummaryOpts({
+      windowDays: settings.baselineWindowDays,
+      driftThresholdMin: settings.driftThresholdMin,
+      minCoverage: settings.minCoverage,
+      excludeFlagged: settings.excludeFlaggedNights,
+    });
+    setNudgeOpts(nudgeOptionsFromSettings(settings));
+    setTrialOpts(trialOptionsFromSettings(settings));
+    setLoaded(true);
   };
 
-  const seed7 = async () => {
-    const fake: Night[] = [
-      makeFake(0, { h: 4, m: 30 }, 210),
-      makeFake(1, { h: 4, m: 30 }, 180),
-      makeFake(2, { h: 4, m: 30 }, 120),
-      makeFake(3, { h: 4, m: 30 }, 90),
-      makeFake(4, { h: 4, m: 30 }, 60),
-      makeFake(5, { h: 4, m: 30 }, 30),
-      makeFake(6, { h: 4, m: 30 }, 0),
-    ];
-    await writeNightsRaw(fake);
-    await refresh();
-  };
-
-  const clear = async () => {
+  // Setting changes show at once; a save that fails is reported rather than
+  // left as an unhandled rejection
+  const saveSettings = async (patch: Settings) => {
     try {
-      // clear the nights list in storage
-      await writeNightsRaw([]);
-      // and run the broader clear in case storage has other keys
-      await clearAll();
-    } finally {
-      // reset local state so the UI empties
-      setNights([]);
-      setLastNudgePreview(null);
-      setActiveNudge(null);
+      await updateSettings(patch);
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Saving settings failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
     }
   };
 
-  const importCsv = async () => {
+  const changeSummaryOption = async (
+    key: keyof SummaryOptions,
+    value: number
+  ) => {
+    const next = resolveSummaryOptions({ ...summaryOpts, [key]: value });
+    setSummaryOpts(next);
+    await saveSettings({
+      baselineWindowDays: next.windowDays,
+      driftThresholdMin: next.driftThresholdMin,
+      minCoverage: next.minCoverage,
+    });
+  };
+
+  const changeNudgeOption = async (key: "leadMin" | "days", value: number) => {
+    const next = resolveNudgeOptions({ ...nudgeOpts, [key]: value });
+    setNudgeOpts(next);
+    await saveSettings({ nudgeLeadMin: next.leadMin, nudgeDays: next.days });
+  };
+
+  const toggleNudges = async () => {
+    const next = !resolveNudgeOptions(nudgeOpts).enabled;
+    setNudgeOpts({ ...nudgeOpts, enabled: next });
+    await saveSettings({ nudgesOn: next });
+  };
+
+  const loadTemplates = async () => {
     try {
       const res = await DocumentPicker.getDocumentAsync({
-        type: "text/csv",
+        type: ["application/json", "text/plain"],
         copyToCacheDirectory: true,
       });
-
       if (res.canceled) return;
 
-      const asset = res.assets && res.assets[0];
-      if (!asset || !asset.uri) {
-        Alert.alert("Import failed", "No file selected.");
+      const uri = res.assets?.[0]?.uri;
+      if (!uri) {
+        Alert.alert("Loading templates failed", "No file selected.");
         return;
       }
 
-      const csv = await FileSystem.readAsStringAsync(asset.uri);
-      const nightsFromCsv = parseCsvToNights(csv);
-      await writeNightsRaw(nightsFromCsv);
-      await refresh();
-
+      // checked in full first, so a bad file never replaces working wording
+      const templates = parseCatalog(await readPickedText(uri));
+      setNudgeOpts({ ...nudgeOpts, templates });
+      await updateSettings({ nudgeTemplates: templates });
+    } catch (err) {
+      console.error(err);
       Alert.alert(
-        "Import complete",
-        `Loaded ${nightsFromCsv.length} nights from CSV.`
+        "Loading templates failed",
+        err instanceof Error ? err.message : "Unknown error."
       );
+    }
+  };
+
+  const resetTemplates = async () => {
+    setNudgeOpts({ ...nudgeOpts, templates: undefined });
+    await saveSettings({ nudgeTemplates: undefined });
+  };
+
+  // The catalog in use, as a starting point for editing
+  const saveTemplates = async () => {
+    try {
+      const saved = await saveTextFiles([
+        {
+          name: catalogFileName(),
+          mimeType: "application/json",
+          text: JSON.stringify(nudgeSettings.templates, null, 2),
+        },
+      ]);
+      if (Platform.OS !== "web") {
+        Alert.alert("Templates saved", `Written to:\n\n${saved[0]}`);
+      }
     } catch (err) {
       console.error(err);
       Alert.alert(
-        "Import failed",
+        "Saving templates failed",
         err instanceof Error ? err.message : "Unknown error."
       );
     }
   };
 
-  const appendNight = async (night: Night) => {
-    const updated = [...nights, night];
-    await writeNightsRaw(updated);
-    await refresh();
+  const logPlannedDecisions = async (plan: PlannedNudge[]) => {
+    const log = await readDecisions();
+    const next = mergeDecisions(
+      log,
+      decisionsFromPlan(plan, stats, trialOpts)
+    );
+    if (JSON.stringify(next) === JSON.stringify(log)) return;
+    await writeDecisions(next);
+    setDecisions(next);
   };
 
-  const logOnTrackNight = async () => {
-    const mid = stats.baselineMid ?? toMinutes(new Date()) + 4 * 60;
-    const night = nightFromMidsleep(mid, 0);
-    await appendNight(night);
+  // inbox changes go through updateInbox, which runs them one at a time
+  const logPlannedNudges = async (plan: PlannedNudge[]) => {
+    const next = await updateInbox((log) => {
+      const merged = mergeInbox(log, entriesFromPlan(plan, stats));
+      return JSON.stringify(merged) === JSON.stringify(log) ? null : merged;
+    });
+    if (next) setInbox(next);
   };
 
-  const logLateNight = async () => {
-    const mid = stats.baselineMid ?? toMinutes(new Date()) + 4 * 60;
-    const night = nightFromMidsleep(mid + 3 * 60, 0); // 3 hours later
-    await appendNight(night);
+  const logNudge = async (entry: InboxEntry) => {
+    const next = await updateInbox((log) => addEntry(log, entry));
+    if (next) setInbox(next);
   };
 
-  const fireNudgeNow = async () => {
-    const enoughData = stats.coverage >= 3;
-    const baselineDescription =
-      stats.baselineMid != null
-        ? fmtHM(stats.baselineMid)
-        : "your usual sleep midpoint once we have a few nights logged";
-
-    const title = enoughData
-      ? stats.drift
-        ? "Tonight looks later than usual"
-        : "Nice job staying on track"
-      : "Example bedtime nudge";
-
-    const body = enoughData
-      ? stats.drift
-        ? `Your sleep midpoint tonight is drifting later than your usual midpoint at ${baselineDescription}. Try starting your wind down a bit earlier to protect your regular schedule.`
-        : `You are staying close to your usual sleep midpoint at ${baselineDescription}. Keeping this pattern helps your body clock stay steady.`
-      : "Once we have at least 3 recent nights, we will compare tonight to your usual sleep midpoint and send you this kind of nudge if you are drifting later.";
-
-    // In-app preview (works everywhere, including web)
-    setActiveNudge({ title, body });
-
-    // Native notification only when on device, with permission, and enough data
-    if (Platform.OS !== "web" && perm === "granted" && enoughData) {
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title,
-          body,
-        },
-        trigger: null,
-      });
-    } else if (Platform.OS !== "web" && perm !== "granted") {
+  const markNudgeOpened = async (id: string) => {
+    const next = await updateInbox((log) => markOpened(log, id));
+    if (next) setInbox(next);
+  };
+
+  const logDecision = async (decision: TrialDecision) => {
+    const next = [decision, ...(await readDecisions())];
+    await writeDecisions(next);
+    setDecisions(next);
+  };
+
+  const toggleTrial = async () => {
+    const next = {
+      ...trialOpts,
+      enabled: !trialSettings.enabled,
+      // each trial gets its own seed unless one was set before
+      seed: trialOpts.seed ?? newTrialSeed(),
+    };
+    setTrialOpts(next);
+    await saveSettings({ trialOn: next.enabled, trialSeed: next.seed });
+  };
+
+  const changeTrialOption = async (
+    key: "nudgePct" | "alternatePct",
+    value: number
+  ) => {
+    const next = resolveTrialOptions({ ...trialOpts, [key]: value });
+    setTrialOpts(next);
+    await saveSettings({
+      trialNudgePct: next.nudgePct,
+      trialAlternatePct: next.alternatePct,
+    });
+  };
+
+  const newSeedForTrial = async () => {
+    const seed = newTrialSeed();
+    setTrialOpts({ ...trialOpts, seed });
+    await saveSettings({ trialSeed: seed });
+  };
+
+  const exportTrialLog = async () => {
+    try {
+      const [allNights, log] = await Promise.all([
+        readNightsRaw(),
+        readDecisions(),
+      ]);
+      if (log.length === 0) {
+        Alert.alert("Nothing to export", "No trial decisions are logged yet.");
+        return;
+      }
+
+      const saved = await saveTextFiles(buildTrialExportFiles(log, allNights));
+      if (Platform.OS !== "web") {
+        Alert.alert(
+          "Trial log saved",
+          `${log.length} decisions written to:\n\n${saved.join("\n")}`
+        );
+      }
+    } catch (err) {
+      console.error(err);
       Alert.alert(
-        "Notifications disabled",
-        "We cannot show a native notification because permission is not granted. The in-app nudge preview is still shown for demo."
+        "Export failed",
+        err instanceof Error ? err.message : "Unknown error."
       );
     }
   };
 
-  // schedule a 1-minute demo notification
-  const scheduleDemoNudge = async () => {
-    const baselineDescription =
-      stats.baselineMid != null
-        ? fmtHM(stats.baselineMid)
-        : "your usual sleep midpoint once we have more data";
-
-    const now = new Date();
-    const target = new Date(now.getTime() + 60 * 1000);
-
-    const title = stats.drift
-      ? "Bedtime nudge (demo)"
-      : "Steady schedule (demo)";
-
-    // Always show an immediate in-app explanation
-    setActiveNudge({
-      title,
-      body:
-        Platform.OS === "web"
-          ? `We would send this bedtime nudge about a minute from now. In a real deployment it would go near your usual sleep midpoint at ${baselineDescription}.`
-          : `We just scheduled a bedtime nudge for about a minute from now (around ${target.toLocaleTimeString(
-              [],
-              { hour: "2-digit", minute: "2-digit" }
-            )}). In a real deployment it would go closer to your usual sleep midpoint at ${baselineDescription}.`,
-    });
+  const toggleExcludeFlagged = async () => {
+    const next = !stats.excludeFlagged;
+    setSummaryOpts({ ...summaryOpts, excludeFlagged: next });
+    await saveSettings({ excludeFlaggedNights: next });
+  };
 
-    if (Platform.OS === "web") {
-      setLastNudgePreview(
-        `Demo only: a bedtime nudge would be scheduled for about one minute from now, aligned with your usual midpoint at ${baselineDescription}.`
+  const toggleMusic = async () => {
+    const next = !isMusicOn;
+    setIsMusicOn(next);
+    await saveSettings({ musicOn: next });
+  };
+
+  const toggleFreeDay = async (weekday: number) => {
+    const next = freeDays.includes(weekday)
+      ? freeDays.filter((d) => d !== weekday)
+      : [...freeDays, weekday];
+    setFreeDays(next);
+    await saveSettings({ freeDays: next });
+  };
+
+  // Replaces stored nights with the picked demo scenario
+  const seedScenario = async () => {
+    try {
+      const fake = generateNights(demo.scenario, {
+        days: demo.days,
+        seed: demo.seed,
+        ...demo.noise,
+      });
+      await writeNightsRaw(fake);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Seeding demo nights failed",
+        err instanceof Error ? err.message : "Unknown error."
       );
-      return;
     }
+  };
 
-    if (perm !== "granted") {
+  const clear = async () => {
+    try {
+      // nights, mood check-ins and both logs; settings stay
+      await clearAll();
+      // reset local state so the UI empties
+      setNights([]);
+      setMoodEntries([]);
+      setDecisions([]);
+      setInbox([]);
+      setLastNudgePreview(null);
+      setActiveNudge(null);
+    } catch (err) {
+      console.error(err);
       Alert.alert(
-        "Notifications disabled",
-        "We could not schedule a native notification because permission is not granted. The in-app preview above shows what it would look like."
+        "Clearing data failed",
+        err instanceof Error ? err.message : "Unknown error."
       );
-      return;
     }
-
-    const trigger: Notifications.DateTriggerInput = {
-      type: Notifications.SchedulableTriggerInputTypes.DATE,
-      date: target,
-    };
-
-    await Notifications.scheduleNotificationAsync({
-      content: {
-        title,
-        body: stats.drift
-          ? `You are trending later tonight compared with your usual midpoint at ${baselineDescription}. Consider starting your wind down a bit earlier.`
-          : `You are staying close to your usual sleep midpoint at ${baselineDescription}. Keeping this pattern helps your body clock stay steady.`,
-      },
-      trigger,
-    });
-
-    Alert.alert(
-      "Demo scheduled",
-      `Bedtime nudge scheduled for ${target.toLocaleTimeString([], {
-        hour: "2-digit",
-        minute: "2-digit",
-      })}.`
-    );
   };
 
-  /* ----- render ----- */
+  const importFile = async () => {
+    try {
+      const res = await DocumentPicker.getDocumentAsync({
+        type: [
+          "text/csv",
+          "text/comma-separated-values",
+          "text/plain",
+          "application/json",
+          "application/xml",
+          "text/xml",
+        ],
+        copyToCacheDirectory: true,
+        multiple: true,
+      });
 
-  const prettyPerm =
-    perm ? perm.charAt(0).toUpperCase() + perm.slice(1) : "";
+      if (res.canceled) return;
 
-  const storageRaw = storageKind();
-  const prettyStorage =
-    storageRaw ? storageRaw.charAt(0).toUpperCase() + storageRaw.slice(1) : "";
+      const assets = (res.assets ?? []).filter((a) => !!a.uri);
+      if (assets.length === 0) {
+        Alert.alert("Import failed", "No file selected.");
+        return;
+      }
 
-  const recentLatenessMinutes =
-    stats.coverage > 0 ? stats.recentLateness : null;
-  const regularityLossMinutes =
-    stats.coverage > 0 ? stats.regularityLoss : null;
+      // nothing is written until the user confirms the summary
+      const reports = [];
+      for (const asset of assets) {
+        reports.push(buildImportReport(await readPickedText(asset.uri)));
+      }
+      setImportReport(combineReports(reports));
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Import failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
 
-  return (
-    <SafeAreaView style={{ flex: 1, backgroundColor: "#0b1220" }}>
-      <Bg />
+  const exportData = async () => {
+    try {
+      const [allNights, allMoods] = await Promise.all([
+        readNightsRaw(),
+        readMoods(),
+      ]);
+      if (allNights.length === 0 && allMoods.length === 0) {
+        Alert.alert("Nothing to export", "There are no nights or moods yet.");
+        return;
+      }
 
-      {/* Any tap in this area will try to kickstart audio (for web autoplay) */}
-      <TouchableWithoutFeedback onPress={kickstartAudio}>
-        <View style={{ flex: 1 }}>
-          <ScrollView
-            contentContainerStyle={{ padding: 20, paddingBottom: 80 }}
-            style={{ flex: 1 }}
-          >
-            {/* Header with centered title + top-right settings icon */}
+      const saved = await saveTextFiles(buildExportFiles(allNights, allMoods));
+      if (Platform.OS !== "web") {
+        Alert.alert(
+          "Export saved",
+          `${allNights.length} nights and ${allMoods.length} mood check-ins ` +
+            `written to:\n\n${saved.join("\n")}`
+        );
+      }
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Export failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
+
+  const backupData = async () => {
+    try {
+      const now = new Date();
+      const doc = await readSnapshot();
+      const saved = await saveTextFiles([
+        {
+          name: backupFileName(now),
+          mimeType: "application/json",
+          text: buildBackup(doc, now),
+        },
+      ]);
+      if (Platform.OS !== "web") {
+        Alert.alert("Backup saved", `Written to:\n\n${saved[0]}`);
+      }
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Backup failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
+
+  const pickBackup = async () => {
+    try {
+      const res = await DocumentPicker.getDocumentAsync({
+        type: ["application/json", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+      if (res.canceled) return;
+
+      const uri = res.assets?.[0]?.uri;
+      if (!uri) {
+        Alert.alert("Restore failed", "No file selected.");
+        return;
+      }
+
+      // validated up front; nothing is replaced until the user confirms
+      const backup = parseBackup(await readPickedText(uri));
+      const current = await readSnapshot();
+      setPendingRestore({
+        doc: backup.doc,
+        preview: previewRestore(current, backup),
+      });
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Restore failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
+
+  const confirmRestore = async () => {
+    if (!pendingRestore) return;
+    try {
+      await restoreSnapshot(pendingRestore.doc);
+      setPendingRestore(null);
+      setLastNudgePreview(null);
+      setActiveNudge(null);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Restore failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
+
+  const closeImport = () => {
+    setImportReport(null);
+    setMergePlan(null);
+    setIncludeSuspicious(true);
+  };
+
+  // Mood check-ins from an export are added, never replaced; returns how
+  // many were new
+  const importMoods = async (moods: MoodEntry[]) => {
+    if (moods.length === 0) return 0;
+    const added = newMoods(await readMoods(), moods);
+    for (const entry of added) await appendMood(entry);
+    return added.length;
+  };
+
+  // Replace every stored night with the imported ones
+  const replaceWithImport = async () => {
+    if (!importReport) return;
+    const nightsFromCsv = nightsFromReport(importReport, includeSuspicious);
+    closeImport();
+    if (nightsFromCsv.length === 0 && importReport.moods.length === 0) return;
+    try {
+      if (nightsFromCsv.length > 0) await writeNightsRaw(nightsFromCsv);
+      const moodCount = await importMoods(importReport.moods);
+      await refresh();
+      Alert.alert(
+        "Import complete",
+        `Loaded ${nightsFromCsv.length} nights${
+          moodCount > 0 ? ` and ${moodCount} mood check-ins` : ""
+        } from ${importReport.format}.`
+      );
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Import failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
+
+  // Show what a merge would change before anything is written
+  const previewMerge = () => {
+    if (!importReport) return;
+    setMergePlan(
+      planMerge(nights, nightsFromReport(importReport, includeSuspicious))
+    );
+  };
+
+  const chooseConflict = (key: string, choice: ConflictChoice) => {
+    setMergePlan((plan) => plan && resolveConflict(plan, key, choice));
+  };
+
+  const applyMerge = async () => {
+    if (!mergePlan) return;
+    const { upserts, deletes } = mergeOps(mergePlan);
+    const moods = importReport?.moods ?? [];
+    closeImport();
+    try {
+      for (const id of deletes) await deleteNight(id);
+      for (const night of upserts) await upsertNight(night);
+      const moodCount = await importMoods(moods);
+      await refresh();
+      Alert.alert(
+        "Import complete",
+        `Added ${upserts.length} nights, replaced ${deletes.length}, skipped ${mergePlan.identical.length} already stored.${
+          moodCount > 0 ? ` Added ${moodCount} mood check-ins.` : ""
+        }`
+      );
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Import failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
+
+  const appendNight = async (night: Night) => {
+    await upsertNight(night);
+    await refresh();
+  };
+
+  const openNewNight = () => {
+    setNightForm({ draft: emptyDraft(), editing: null, error: null });
+  };
+
+  const openEditNight = (night: Night) => {
+    setNightForm({ draft: draftFromNight(night), editing: night, error: null });
+  };
+
+  // Diary for the night that ended this morning; adds it if not logged yet
+  const openMorningCheckIn = () => {
+    const today = emptyDraft();
+    const lastNight = derived.find(
+      (d) => d.kind === "main" && d.wake_day === today.date
+    );
+    if (lastNight) openEditNight(lastNight);
+    else openNewNight();
+  };
+
+  const changeDraft = (patch: Partial<NightDraft>) => {
+    setNightForm((f) => f && { ...f, draft: { ...f.draft, ...patch } });
+  };
+
+  const saveNightForm = async () => {
+    if (!nightForm) return;
+    const { editing } = nightForm;
+    const others = nights.filter((n) => !editing || n.id !== editing.id);
+    // an edited night stays on the clock it was slept on
+    const zone: ZoneRef | undefined = editing
+      ? { tz: editing.tz, utc_offset_min: editing.utc_offset_min }
+      : undefined;
+    const result = nightFromDraft(nightForm.draft, others, zone);
+    if ("error" in result) {
+      setNightForm({ ...nightForm, error: result.error });
+      return;
+    }
+    try {
+      await appendNight(
+        editing ? { ...result.night, id: editing.id } : result.night
+      );
+      setNightForm(null);
+    } catch (err) {
+      console.error(err);
+      setNightForm({ ...nightForm, error: "Saving the night failed." });
+    }
+  };
+
+  const deleteFormNight = async () => {
+    const id = nightForm?.editing?.id;
+    if (!id || !nightForm) return;
+    try {
+      await deleteNight(id);
+      setNightForm(null);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      setNightForm({ ...nightForm, error: "Deleting the night failed." });
+    }
+  };
+
+  // Midsleep for the night after the latest stored one, at baseline clock
+  // time plus an offset; with no baseline yet, four hours from now.
+  const nextDemoMidsleep = (offsetMin: number) => {
+    if (stats.baselineMid == null) return toMinutes(new Date()) + 4 * 60;
+    const latest = derived[0]?.midsleep_min_epoch ?? toMinutes(new Date());
+    return nextEpochAtClock(
+      (stats.baselineMid + offsetMin) % MINUTES_PER_DAY,
+      latest
+    );
+  };
+
+  const logDemoNight = async (offsetMin: number) => {
+    try {
+      await appendNight(nightFromMidsleep(nextDemoMidsleep(offsetMin), 0));
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Logging the night failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
+
+  const logOnTrackNight = () => logDemoNight(0);
+
+  const logLateNight = () => logDemoNight(3 * 60); // 3 hours later
+
+  const fireNudgeNow = async () => {
+    try {
+      // in trial mode this is a decision point: randomized and logged
+      const trial = manualDecision(stats, nudgeOpts, trialOpts);
+      if (trial) await logDecision(trial.decision);
+      const message = trial ? trial.message : tonightsNudge;
+      if (!message) {
+        setActiveNudge({
+          title: "No nudge this time (trial)",
+          body: "Trial mode drew the no-nudge arm for this decision. It is logged with tonight's numbers, and the next night's midsleep becomes its outcome.",
+        });
+        return;
+      }
+      const { title, body } = message;
+
+      // In-app preview (works everywhere, including web)
+      setActiveNudge({ title, body });
+
+      // Native notification only on device, with permission, for tiers that
+      // send one
+      const now = new Date();
+      const id = `preview-${now.toISOString()}`;
+      const notify = RISK_TIERS[stats.risk].notify;
+      const native = Platform.OS !== "web" && perm === "granted" && notify;
+      await logNudge(
+        inboxEntry(stats, message, {
+          id,
+          sentAt: now,
+          channel: native ? "native" : "in_app",
+          origin: "preview",
+          arm: trial?.decision.arm,
+        })
+      );
+      if (native) {
+        await Notifications.scheduleNotificationAsync({
+          identifier: id,
+          content: {
+            title,
+            body,
+          },
+          trigger: null,
+        });
+      } else if (Platform.OS !== "web" && perm !== "granted") {
+        Alert.alert(
+          "Notifications disabled",
+          "We cannot show a native notification because permission is not granted. The in-app nudge preview is still shown for demo."
+        );
+      }
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Showing the nudge failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
+
+  // schedule a 1-minute demo notification
+  const scheduleDemoNudge = async () => {
+    try {
+      const baselineDescription =
+        stats.baselineMid != null
+          ? fmtHM(stats.baselineMid)
+          : "your usual sleep midpoint once we have more data";
+
+      const now = new Date();
+      const target = new Date(now.getTime() + 60 * 1000);
+
+      const content = tonightsNudge;
+      const title = `${content.title} (demo)`;
+
+      // Always show an immediate in-app explanation
+      setActiveNudge({
+        title,
+        body:
+          Platform.OS === "web"
+            ? `We would send this bedtime nudge about a minute from now. Your real nudges go out before your usual bedtime; see "Upcoming bedtime nudges".`
+            : `We just scheduled a bedtime nudge for about a minute from now (around ${target.toLocaleTimeString(
+                [],
+                { hour: "2-digit", minute: "2-digit" }
+              )}). Your real nudges go out before your usual bedtime; see "Upcoming bedtime nudges".`,
+      });
+
+      if (Platform.OS === "web") {
+        setLastNudgePreview(
+          `Demo only: a bedtime nudge would be scheduled for about one minute from now, aligned with your usual midpoint at ${baselineDescription}.`
+        );
+        return;
+      }
+
+      if (perm !== "granted") {
+        Alert.alert(
+          "Notifications disabled",
+          "We could not schedule a native notification because permission is not granted. The in-app preview above shows what it would look like."
+        );
+        return;
+      }
+
+      const trigger: Notifications.DateTriggerInput = {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: target,
+      };
+
+      const id = `demo-${target.toISOString()}`;
+      await Notifications.scheduleNotificationAsync({
+        identifier: id,
+        content: {
+          title,
+          body: content.body,
+        },
+        trigger,
+      });
+      await logNudge(
+        inboxEntry(
+          stats,
+          { ...content, title },
+          { id, sentAt: target, channel: "native", origin: "demo" }
+        )
+      );
+
+      Alert.alert(
+        "Demo scheduled",
+        `Bedtime nudge scheduled for ${target.toLocaleTimeString([], {
+          hour: "2-digit",
+          minute: "2-digit",
+        })}.`
+      );
+    } catch (err) {
+      console.error(err);
+      Alert.alert(
+        "Scheduling the demo failed",
+        err instanceof Error ? err.message : "Unknown error."
+      );
+    }
+  };
+
+  /* ----- render ----- */
+
+  const prettyPerm =
+    perm ? perm.charAt(0).toUpperCase() + perm.slice(1) : "";
+
+  const storageRaw = storageKind();
+  const prettyStorage =
+    storageRaw ? storageRaw.charAt(0).toUpperCase() + storageRaw.slice(1) : "";
+
+  const recentLatenessMinutes =
+    stats.coverage > 0 ? stats.recentLateness : null;
+  const regularityLossMinutes =
+    stats.coverage > 0 ? stats.regularityLoss : null;
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: "#0b1220" }}>
+      <Bg />
+
+      {/* Any tap in this area will try to kickstart audio (for web autoplay) */}
+      <TouchableWithoutFeedback onPress={kickstartAudio}>
+        <View style={{ flex: 1 }}>
+          <ScrollView
+            contentContainerStyle={{ padding: 20, paddingBottom: 80 }}
+            style={{ flex: 1 }}
+          >
+            {/* Header with centered title + top-right settings icon */}
             <View
               style={{
                 flexDirection: "row",
@@ -1023,10 +1764,16 @@ export default function App() {
 
             {/* explanatory text */}
             <Text style={{ color: "#cbd5e1", marginBottom: 6 }}>
-              We use your last {BASELINE_WINDOW_DAYS} nights to compute a
-              personal baseline midsleep. If tonight drifts more than{" "}
-              {DRIFT_THRESHOLD_HOURS.toFixed(1)} hours from that baseline, we
-              flag risk as HIGH and trigger a bedtime nudge.
+              We use your last {windowDays} days to compute a personal
+              baseline midsleep. Once at least {stats.minCoverage} nights are
+              logged, a night more than{" "}
+              {fmtMinutesAsHours(stats.driftThresholdMin / 2)} from that
+              baseline is a slight drift, more than{" "}
+              {fmtMinutesAsHours(stats.driftThresholdMin)} a moderate one and
+              more than {fmtMinutesAsHours(stats.driftThresholdMin * 2)} HIGH.
+              A drift kept up for three nights raises the tier by one; drifting
+              earlier is capped at moderate. Any drift triggers a bedtime nudge
+              worded for how far you drifted.
             </Text>
 
             <Text style={{ color: "#cbd5e1", marginBottom: 16 }}>
@@ -1047,8 +1794,14 @@ export default function App() {
                 marginBottom: 4,
               }}
             >
-              <LinkButton title="Import CSV" onPress={importCsv} />
-              <LinkButton title="Seed demo nights" onPress={seed7} />
+              <LinkButton
+                title="Morning check-in"
+                onPress={openMorningCheckIn}
+              />
+              <LinkButton title="Add night" onPress={openNewNight} />
+              <LinkButton title="Import file" onPress={importFile} />
+              <LinkButton title="Export data" onPress={exportData} />
+              <LinkButton title="Seed demo nights" onPress={seedScenario} />
               <LinkButton title="Add on-time night" onPress={logOnTrackNight} />
               <LinkButton title="Add late night" onPress={logLateNight} />
             </View>
@@ -1063,6 +1816,94 @@ export default function App() {
               demos so you can show how the nudge logic reacts without real
               tracker data.
             </Text>
+
+            {/* demo scenario picked for "Seed demo nights" */}
+            <View style={{ flexDirection: "row", flexWrap: "wrap" }}>
+              {SCENARIO_IDS.map((id) => {
+                const selected = demo.scenario === id;
+                return (
+                  <TouchableOpacity
+                    key={id}
+                    onPress={() =>
+                      setDemo({
+                        ...demo,
+                        scenario: id,
+                        noise: SCENARIOS[id].defaults,
+                      })
+                    }
+                    style={{
+                      paddingHorizontal: 10,
+                      paddingVertical: 5,
+                      borderRadius: 999,
+                      marginRight: 6,
+                      marginBottom: 6,
+                      borderWidth: 1,
+                      borderColor: selected
+                        ? "#38bdf8"
+                        : "rgba(148,163,184,0.5)",
+                      backgroundColor: selected
+                        ? "rgba(56,189,248,0.22)"
+                        : "transparent",
+                    }}
+                  >
+                    <Text
+                      style={{
+                        color: "#e5e7eb",
+                        fontSize: 12,
+                        fontWeight: "700",
+                      }}
+                    >
+                      {SCENARIOS[id].label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={{ color: "#94a3b8", fontSize: 12, marginBottom: 6 }}>
+              {SCENARIOS[demo.scenario].description}
+            </Text>
+            <Stepper
+              label="Demo days"
+              value={demo.days}
+              display={`${demo.days} days`}
+              min={SCENARIO_DAYS.min}
+              max={SCENARIO_DAYS.max}
+              step={7}
+              onChange={(days) => setDemo({ ...demo, days })}
+            />
+            {NOISE_STEPPERS.map(({ key, label, display }) => (
+              <Stepper
+                key={key}
+                label={label}
+                value={demo.noise[key]}
+                display={display(demo.noise[key])}
+                {...SCENARIO_NOISE_RANGES[key]}
+                // rates step by 0.05; keep them free of float drift
+                onChange={(v) =>
+                  setDemo({
+                    ...demo,
+                    noise: { ...demo.noise, [key]: Math.round(v * 100) / 100 },
+                  })
+                }
+              />
+            ))}
+            <View
+              style={{
+                flexDirection: "row",
+                alignItems: "center",
+                marginBottom: 10,
+              }}
+            >
+              <Text style={{ color: "#cbd5e1", fontSize: 12, flex: 1 }}>
+                Seed {demo.seed} (the same seed gives the same nights)
+              </Text>
+              <LinkButton
+                title="New seed"
+                onPress={() =>
+                  setDemo({ ...demo, seed: Math.floor(Math.random() * 1e6) })
+                }
+              />
+            </View>
             <View
               style={{
                 flexDirection: "row",
@@ -1070,6 +1911,8 @@ export default function App() {
                 marginBottom: 10,
               }}
             >
+              <LinkButton title="Back up" onPress={backupData} />
+              <LinkButton title="Restore backup" onPress={pickBackup} />
               <LinkButton title="Clear data" onPress={clear} tone="danger" />
             </View>
 
@@ -1082,8 +1925,8 @@ export default function App() {
                   marginBottom: 8,
                 }}
               >
-                Coverage last {BASELINE_WINDOW_DAYS} days:{" "}
-                {stats.coverage}/{BASELINE_WINDOW_DAYS}
+                Coverage last {windowDays} days:{" "}
+                {stats.coverage}/{windowDays}
               </Text>
               <Text style={{ color: "white", fontSize: 16, marginBottom: 4 }}>
                 Baseline midsleep:{" "}
@@ -1099,6 +1942,23 @@ export default function App() {
                 Regularity loss (sum deviation over window): ~
                 {fmtMinutesAsHours(regularityLossMinutes)}
               </Text>
+              {(stats.quality.excludable.size > 0 ||
+                stats.quality.gaps.length > 0) && (
+                <Text
+                  style={{ color: "#fbbf24", fontSize: 14, marginBottom: 10 }}
+                >
+                  Data quality: {stats.quality.excludable.size} flagged
+                  {stats.quality.excludable.size === 1 ? " night" : " nights"}
+                  {stats.quality.gaps.length > 0
+                    ? ` · ${stats.quality.gaps.length} logging gap${
+                        stats.quality.gaps.length === 1 ? "" : "s"
+                      }`
+                    : ""}
+                  {stats.excluded > 0
+                    ? ` · ${stats.excluded} left out of the baseline`
+                    : ""}
+                </Text>
+              )}
 
               <View style={{ marginBottom: 10 }}>
                 <Text
@@ -1108,8 +1968,10 @@ export default function App() {
                     marginBottom: 2,
                   }}
                 >
-                  Baseline midsleep is the midpoint of your usual sleep over the
-                  last {BASELINE_WINDOW_DAYS} nights.
+                  Baseline midsleep is the usual clock time halfway through your
+                  sleep over the last {windowDays} days, averaged
+                  around the clock so nights either side of midnight count
+                  correctly.
                 </Text>
                 <Text
                   style={{
@@ -1118,8 +1980,8 @@ export default function App() {
                     marginBottom: 2,
                   }}
                 >
-                  Recent lateness shows how many hours last night was away from
-                  that midpoint.
+                  Recent lateness shows how many hours last night's midpoint was
+                  away from that clock time.
                 </Text>
                 <Text
                   style={{
@@ -1137,11 +1999,20 @@ export default function App() {
                   color: riskColor,
                   fontSize: 18,
                   fontWeight: "800",
-                  marginBottom: 12,
+                  marginBottom: 6,
                 }}
               >
-                Tonight risk: {riskLabel}
+                Tonight risk: {riskText}
               </Text>
+              {stats.reasons.map((reason) => (
+                <Text
+                  key={reason}
+                  style={{ color: "#94a3b8", fontSize: 13, marginBottom: 2 }}
+                >
+                  {reason}
+                </Text>
+              ))}
+              <View style={{ height: 10 }} />
 
               <View style={{ marginBottom: 8 }}>
                 <LinkButton
@@ -1155,25 +2026,127 @@ export default function App() {
                   onPress={scheduleDemoNudge}
                 />
               </View>
-              {lastNudgePreview && (
-                <View
-                  style={{
-                    marginTop: 8,
-                    paddingHorizontal: 12,
-                    paddingVertical: 10,
-                    borderRadius: 12,
-                    backgroundColor: "rgba(15,23,42,0.7)",
-                    borderWidth: 1,
-                    borderColor: "rgba(148,163,184,0.5)",
-                  }}
-                >
-                  <Text style={{ color: "#e5e7eb", fontSize: 14 }}>
-                    {lastNudgePreview}
+              <View style={{ marginBottom: 4 }}>
+                <LinkButton
+                  title={`Nudge inbox (${sentEntries(inbox).length})`}
+                  onPress={() => setIsInboxOpen(true)}
+                />
+              </View>
+
+              <Text
+                style={{
+                  color: "white",
+                  fontSize: 16,
+                  fontWeight: "700",
+                  marginTop: 8,
+                  marginBottom: 4,
+                }}
+              >
+                Upcoming bedtime nudges
+              </Text>
+              {nudgePlan.length === 0 ? (
+                <Text style={{ color: "#94a3b8", fontSize: 13 }}>
+                  {!nudgeSettings.enabled
+                    ? "Bedtime nudges are off (see Settings)."
+                    : stats.risk === "insufficient"
+                    ? `Nudges start once ${stats.minCoverage} recent nights give us a usual bedtime.`
+                    : "You are on track, so no nudges are needed for now."}
+                </Text>
+              ) : (
+                <>
+                  <Text
+                    style={{ color: "#94a3b8", fontSize: 13, marginBottom: 4 }}
+                  >
+                    {nudgeSettings.leadMin} min before your usual bedtime of{" "}
+                    {fmtHM(baselineBedtime(stats))}
+                    {Platform.OS === "web"
+                      ? " (notifications are only sent on a phone)"
+                      : perm !== "granted"
+                      ? " (allow notifications to receive them)"
+                      : ""}
+                    .
+                  </Text>
+                  {nudgePlan.map((n) => (
+                    <Text
+                      key={n.id}
+                      style={{ color: "#cbd5e1", fontSize: 13 }}
+                    >
+                      {n.at.toLocaleDateString([], {
+                        weekday: "short",
+                        month: "short",
+                        day: "numeric",
+                      })}{" "}
+                      · {fmtClock(n.at.toISOString(), {})} ·{" "}
+                      {n.arm === "none" ? "No nudge (trial)" : n.title}
+                    </Text>
+                  ))}
+                </>
+              )}
+
+              {lastNudgePreview && (
+                <View
+                  style={{
+                    marginTop: 8,
+                    paddingHorizontal: 12,
+                    paddingVertical: 10,
+                    borderRadius: 12,
+                    backgroundColor: "rgba(15,23,42,0.7)",
+                    borderWidth: 1,
+                    borderColor: "rgba(148,163,184,0.5)",
+                  }}
+                >
+                  <Text style={{ color: "#e5e7eb", fontSize: 14 }}>
+                    {lastNudgePreview}
                   </Text>
                 </View>
               )}
             </Card>
 
+            {/* ---- sleep regularity index card ---- */}
+            <Card>
+              <Text
+                style={{
+                  color: "white",
+                  fontSize: 18,
+                  fontWeight: "800",
+                  marginBottom: 8,
+                }}
+              >
+                Sleep Regularity Index
+              </Text>
+              <Text
+                style={{
+                  color: stats.sri.sufficient ? "#38bdf8" : "#e5e7eb",
+                  fontSize: 28,
+                  fontWeight: "800",
+                  marginBottom: 4,
+                }}
+              >
+                {stats.sri.sri == null ? "n/a" : `${stats.sri.sri} / 100`}
+              </Text>
+              <Text style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 4 }}>
+                Window: last {stats.sri.windowDays} days ·{" "}
+                {stats.sri.daysWithData} days with data · {stats.sri.dayPairs}{" "}
+                day pairs compared
+              </Text>
+              <Text
+                style={{
+                  color: stats.sri.sufficient ? "#4ade80" : "#fbbf24",
+                  fontSize: 14,
+                  marginBottom: 8,
+                }}
+              >
+                {stats.sri.sufficient
+                  ? "Enough data for a reliable score."
+                  : `Need at least ${stats.sri.minDayPairs} pairs of consecutive logged days for a reliable score.`}
+              </Text>
+              <Text style={{ color: "#94a3b8", fontSize: 13 }}>
+                SRI is the chance you are in the same state (asleep or awake)
+                at any two moments 24 hours apart, scaled so 100 means the same
+                timing every day and 0 means no day-to-day pattern.
+              </Text>
+            </Card>
+
             {/* ---- history card ---- */}
             <Card pad={false}>
               <View style={{ padding: 16 }}>
@@ -1190,100 +2163,304 @@ export default function App() {
                 <Text
                   style={{ color: "#cbd5e1", marginBottom: 8, fontSize: 14 }}
                 >
-                  Most recent at the top. Nights in the last{" "}
-                  {BASELINE_WINDOW_DAYS} days form the baseline window.
+                  Most recent at the top, grouped by the day each sleep ended.
+                  Main sleeps from the last {windowDays} days form the baseline
+                  window; naps count towards 24h sleep only. Tap a night to edit or
+                  delete it.
                 </Text>
               </View>
 
               {derived.length === 0 ? (
                 <View style={{ paddingHorizontal: 16, paddingBottom: 16 }}>
                   <Text style={{ color: "#cbd5e1" }}>
-                    No nights yet. Import a CSV, seed demo data, or add a night
+                    No nights yet. Import a file, seed demo data, or add a night
                     to see history.
                   </Text>
                 </View>
               ) : (
-                derived.slice(0, 21).map((n, idx) => {
-                  const isInBaseline = idx < BASELINE_WINDOW_DAYS;
-                  const lateVsBaseline =
-                    stats.baselineMid == null
-                      ? false
-                      : Math.abs(
-                          n.midsleep_min_epoch - stats.baselineMid
-                        ) >= DRIFT_THRESHOLD_MIN;
-
-                  const label =
-                    stats.baselineMid == null
-                      ? "n/a"
-                      : lateVsBaseline
-                      ? "Late vs baseline"
-                      : "On track";
-
-                  const color =
-                    stats.baselineMid == null
-                      ? "#e5e7eb"
-                      : lateVsBaseline
-                      ? "#ff7a7a"
-                      : "#4ade80";
-
-                  return (
+                stats.days.slice(0, 14).map((day) => (
+                  <View key={day.day}>
                     <View
-                      key={n.date + n.sleep_start}
                       style={{
                         paddingHorizontal: 16,
-                        paddingVertical: 10,
+                        paddingTop: 12,
+                        paddingBottom: 6,
                         borderTopWidth: 1,
-                        borderTopColor: "rgba(255,255,255,0.06)",
+                        borderTopColor: "rgba(255,255,255,0.12)",
                         flexDirection: "row",
                         justifyContent: "space-between",
-                        alignItems: "center",
                       }}
                     >
-                      <View>
-                        <Text
-                          style={{
-                            color: "white",
-                            fontWeight: "700",
-                          }}
-                        >
-                          {fmtDate(n.sleep_start)}
-                        </Text>
-                        <Text
-                          style={{
-                            color: "#cbd5e1",
-                            fontSize: 13,
-                          }}
-                        >
-                          Bed {fmtClock(n.sleep_start)} · Wake{" "}
-                          {fmtClock(n.sleep_end)}
-                        </Text>
-                      </View>
-                      <View style={{ alignItems: "flex-end" }}>
-                        <Text
+                      <Text style={{ color: "white", fontWeight: "800" }}>
+                        {fmtDate(`${day.day}T12:00:00`)}
+                      </Text>
+                      <Text style={{ color: "#cbd5e1", fontSize: 13 }}>
+                        {fmtMinutesAsHours(day.totalSleepMin)} in 24h
+                        {day.napMin > 0
+                          ? ` (naps ${fmtMinutesAsHours(day.napMin)})`
+                          : ""}
+                      </Text>
+                    </View>
+
+                    {day.episodes.map((n) => {
+                      const isNap = n.kind === "nap";
+                      const flags =
+                        stats.quality.flags.get(nightKey(n)) ?? [];
+                      const leftOut =
+                        stats.excludeFlagged &&
+                        stats.quality.excludable.has(nightKey(n));
+                      const lateVsBaseline =
+                        stats.baselineMid == null
+                          ? false
+                          : Math.abs(
+                              clockDiff(n.midsleep_clock, stats.baselineMid)
+                            ) >= stats.driftThresholdMin;
+
+                      const label = isNap
+                        ? "Nap"
+                        : stats.baselineMid == null
+                        ? "n/a"
+                        : lateVsBaseline
+                        ? "Late vs baseline"
+                        : "On track";
+
+                      const color = isNap
+                        ? "#a5b4fc"
+                        : stats.baselineMid == null
+                        ? "#e5e7eb"
+                        : lateVsBaseline
+                        ? "#ff7a7a"
+                        : "#4ade80";
+
+                      return (
+                        <TouchableOpacity
+                          key={n.id ?? n.date + n.sleep_start}
+                          onPress={() => openEditNight(n)}
+                          activeOpacity={0.7}
                           style={{
-                            color,
-                            fontWeight: "700",
-                            fontSize: 14,
+                            paddingHorizontal: 16,
+                            paddingVertical: 8,
+                            flexDirection: "row",
+                            justifyContent: "space-between",
+                            alignItems: "center",
                           }}
                         >
-                          {label}
-                        </Text>
-                        {isInBaseline && (
-                          <Text
-                            style={{
-                              color: "#94a3b8",
-                              fontSize: 11,
-                            }}
-                          >
-                            In baseline window
-                          </Text>
-                        )}
-                      </View>
-                    </View>
-                  );
-                })
+                          <View>
+                            <Text
+                              style={{
+                                color: "#cbd5e1",
+                                fontSize: 13,
+                              }}
+                            >
+                              Bed {fmtHM(clockOf(n.start_local_min))} ·
+                              Wake {fmtHM(clockOf(n.end_local_min))}
+                              {zoneNote(n)}
+                            </Text>
+                            {n.sleep_efficiency != null && (
+                              <Text
+                                style={{
+                                  color: "#94a3b8",
+                                  fontSize: 12,
+                                }}
+                              >
+                                Slept {fmtMinutesAsHours(n.total_sleep_min)} ·{" "}
+                                {n.sleep_efficiency}% efficiency
+                              </Text>
+                            )}
+                            {flags.length > 0 && (
+                              <View
+                                style={{
+                                  flexDirection: "row",
+                                  flexWrap: "wrap",
+                                  marginTop: 4,
+                                }}
+                              >
+                                {flags.map((f) => (
+                                  <View
+                                    key={f.issue}
+                                    style={{
+                                      paddingHorizontal: 6,
+                                      paddingVertical: 1,
+                                      borderRadius: 999,
+                                      backgroundColor:
+                                        f.issue === "gap"
+                                          ? "rgba(148,163,184,0.25)"
+                                          : "rgba(251,191,36,0.22)",
+                                      marginRight: 4,
+                                      marginBottom: 2,
+                                    }}
+                                  >
+                                    <Text
+                                      style={{
+                                        color:
+                                          f.issue === "gap"
+                                            ? "#cbd5e1"
+                                            : "#fbbf24",
+                                        fontSize: 11,
+                                        fontWeight: "700",
+                                      }}
+                                    >
+                                      {ISSUE_LABELS[f.issue]}
+                                    </Text>
+                                  </View>
+                                ))}
+                              </View>
+                            )}
+                            {flags.map((f) => (
+                              <Text
+                                key={f.issue}
+                                style={{
+                                  color: "#94a3b8",
+                                  fontSize: 11,
+                                  maxWidth: 220,
+                                }}
+                              >
+                                {f.reason}
+                              </Text>
+                            ))}
+                          </View>
+                          <View style={{ alignItems: "flex-end" }}>
+                            <Text
+                              style={{
+                                color,
+                                fontWeight: "700",
+                                fontSize: 14,
+                              }}
+                            >
+                              {label}
+                            </Text>
+                            {baselineNights.has(n) && (
+                              <Text
+                                style={{
+                                  color: "#94a3b8",
+                                  fontSize: 11,
+                                }}
+                              >
+                                In baseline window
+                              </Text>
+                            )}
+                            {leftOut && (
+                              <Text
+                                style={{
+                                  color: "#fbbf24",
+                                  fontSize: 11,
+                                }}
+                              >
+                                Left out of baseline
+                              </Text>
+                            )}
+                          </View>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                ))
               )}
             </Card>
+
+            {/* ---- weekday vs weekend card ---- */}
+            <Card>
+              <Text
+                style={{
+                  color: "white",
+                  fontSize: 18,
+                  fontWeight: "800",
+                  marginBottom: 8,
+                }}
+              >
+                Workdays vs free days
+              </Text>
+              <Text style={{ color: "#cbd5e1", marginBottom: 8, fontSize: 14 }}>
+                Nights count toward the day you wake up. Tap a day to mark it as
+                a free day (last {jetlag.windowDays} days).
+              </Text>
+
+              <View
+                style={{
+                  flexDirection: "row",
+                  flexWrap: "wrap",
+                  marginBottom: 10,
+                }}
+              >
+                {WEEKDAY_SHORT.map((name, weekday) => {
+                  const isFree = freeDays.includes(weekday);
+                  return (
+                    <TouchableOpacity
+                      key={name}
+                      onPress={() => toggleFreeDay(weekday)}
+                      style={{
+                        paddingHorizontal: 10,
+                        paddingVertical: 5,
+                        borderRadius: 999,
+                        marginRight: 6,
+                        marginBottom: 6,
+                        borderWidth: 1,
+                        borderColor: isFree ? "#a855f7" : "rgba(148,163,184,0.5)",
+                        backgroundColor: isFree
+                          ? "rgba(168,85,247,0.25)"
+                          : "transparent",
+                      }}
+                    >
+                      <Text
+                        style={{
+                          color: "#e5e7eb",
+                          fontSize: 12,
+                          fontWeight: "700",
+                        }}
+                      >
+                        {name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <Text style={{ color: "white", fontSize: 16, marginBottom: 4 }}>
+                Social jetlag:{" "}
+                <Text style={{ fontWeight: "700" }}>
+                  {jetlag.socialJetlagMin == null
+                    ? "n/a"
+                    : `${fmtMinutesAsHours(jetlag.socialJetlagMin)} ${
+                        jetlag.socialJetlagMin >= 0 ? "later" : "earlier"
+                      } on free days`}
+                </Text>
+              </Text>
+              <Text style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 10 }}>
+                Workday midsleep {fmtHM(jetlag.workdayMid)} (
+                {jetlag.workdayNights} nights) · Free-day midsleep{" "}
+                {fmtHM(jetlag.freeDayMid)} ({jetlag.freeDayNights} nights)
+              </Text>
+
+              {jetlag.byWeekday.map((w) => (
+                <View
+                  key={w.weekday}
+                  style={{
+                    flexDirection: "row",
+                    justifyContent: "space-between",
+                    paddingVertical: 6,
+                    borderTopWidth: 1,
+                    borderTopColor: "rgba(255,255,255,0.06)",
+                  }}
+                >
+                  <Text
+                    style={{
+                      color: w.isFreeDay ? "#c4b5fd" : "white",
+                      fontWeight: "700",
+                      width: 44,
+                    }}
+                  >
+                    {WEEKDAY_SHORT[w.weekday]}
+                  </Text>
+                  <Text style={{ color: "#cbd5e1", fontSize: 13, flex: 1 }}>
+                    {w.nights === 0
+                      ? "No nights"
+                      : `Bed ${fmtHM(w.bedtime)} · Wake ${fmtHM(
+                          w.wake
+                        )} · ${fmtMinutesAsHours(w.durationMin)}`}
+                  </Text>
+                </View>
+              ))}
+            </Card>
           </ScrollView>
 
           {/* Floating Check-in FAB */}
@@ -1437,7 +2614,7 @@ export default function App() {
               }}
             >
               <TouchableOpacity
-                onPress={() => setIsMusicOn((prev) => !prev)}
+                onPress={toggleMusic}
                 style={{
                   paddingHorizontal: 14,
                   paddingVertical: 6,
@@ -1484,202 +2661,737 @@ export default function App() {
                 setMusicVolume(value);
                 setIsMusicOn(value > 0);
               }}
+              onSlidingComplete={(value: number) =>
+                saveSettings({ musicVolume: value, musicOn: value > 0 })
+              }
               minimumTrackTintColor="#38bdf8"
               maximumTrackTintColor="#4b5563"
               thumbTintColor="#e5e7eb"
             />
-          </View>
-        </View>
-      )}
 
-      {/* Mood check-in overlay (picker + summary) */}
-      {isMoodOverlayOpen && (
-        <View
-          style={{
-            position: "absolute",
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            backgroundColor: "#020617",
-            zIndex: 60,
-          }}
-        >
-          <SafeAreaView style={{ flex: 1 }}>
-            {/* top bar with summary/back + X */}
-            <View
+            <Text
+              style={{
+                color: "#e5e7eb",
+                fontSize: 14,
+                fontWeight: "600",
+                marginTop: 14,
+                marginBottom: 4,
+              }}
+            >
+              Nudge sensitivity
+            </Text>
+            <Text
+              style={{
+                color: "#94a3b8",
+                fontSize: 12,
+                marginBottom: 10,
+              }}
+            >
+              How many days form the baseline, how far a night may drift
+              before it is a moderate drift (later than twice that is HIGH; a
+              three-night streak raises the tier by one, and earlier drift is
+              capped at moderate), and how many nights we need first.
+            </Text>
+            <Stepper
+              label="Baseline window"
+              value={stats.windowDays}
+              display={`${stats.windowDays} days`}
+              {...SUMMARY_OPTION_RANGES.windowDays}
+              onChange={(v) => changeSummaryOption("windowDays", v)}
+            />
+            <Stepper
+              label="Drift threshold"
+              value={stats.driftThresholdMin}
+              display={fmtMinutesAsHours(stats.driftThresholdMin)}
+              {...SUMMARY_OPTION_RANGES.driftThresholdMin}
+              onChange={(v) => changeSummaryOption("driftThresholdMin", v)}
+            />
+            <Stepper
+              label="Minimum coverage"
+              value={stats.minCoverage}
+              display={`${stats.minCoverage} nights`}
+              min={SUMMARY_OPTION_RANGES.minCoverage.min}
+              max={stats.windowDays}
+              step={SUMMARY_OPTION_RANGES.minCoverage.step}
+              onChange={(v) => changeSummaryOption("minCoverage", v)}
+            />
+            <TouchableOpacity
+              onPress={toggleExcludeFlagged}
               style={{
                 flexDirection: "row",
-                justifyContent: "space-between",
                 alignItems: "center",
-                paddingHorizontal: 18,
-                paddingTop: 8,
+                justifyContent: "space-between",
+                marginTop: 4,
               }}
             >
-              <TouchableOpacity
-                onPress={() =>
-                  setMoodScreen((prev) =>
-                    prev === "picker" ? "summary" : "picker"
-                  )
-                }
-                style={{
-                  paddingHorizontal: 12,
-                  paddingVertical: 6,
-                  borderRadius: 999,
-                  borderWidth: 1,
-                  borderColor: "#38bdf8",
-                  backgroundColor: "rgba(15,23,42,0.9)",
-                }}
-              >
-                <Text
-                  style={{
-                    color: "#e5e7eb",
-                    fontSize: 12,
-                    fontWeight: "600",
-                  }}
-                >
-                  {moodScreen === "picker"
-                    ? "Mood check-ins summary"
-                    : "Back to check-in"}
-                </Text>
-              </TouchableOpacity>
+              <Text style={{ color: "#cbd5e1", fontSize: 12, flex: 1 }}>
+                Leave flagged nights out of the baseline
+              </Text>
+              <Ionicons
+                name={stats.excludeFlagged ? "checkbox" : "square-outline"}
+                size={20}
+                color={stats.excludeFlagged ? "#38bdf8" : "#94a3b8"}
+              />
+            </TouchableOpacity>
 
-              <TouchableOpacity
-                onPress={() => setIsMoodOverlayOpen(false)}
-                style={{
-                  width: 32,
-                  height: 32,
-                  borderRadius: 16,
-                  backgroundColor: "rgba(15,23,42,0.9)",
-                  alignItems: "center",
-                  justifyContent: "center",
-                  borderWidth: 1,
-                  borderColor: "rgba(148,163,184,0.7)",
-                }}
-              >
-                <Ionicons name="close" size={18} color="#e5e7eb" />
-              </TouchableOpacity>
-            </View>
+            <Text
+              style={{
+                color: "#e5e7eb",
+                fontSize: 14,
+                fontWeight: "600",
+                marginTop: 14,
+                marginBottom: 4,
+              }}
+            >
+              Bedtime nudges
+            </Text>
+            <Text
+              style={{
+                color: "#94a3b8",
+                fontSize: 12,
+                marginBottom: 10,
+              }}
+            >
+              A reminder each evening to start winding down, this long before
+              your usual bedtime, scheduled this many days ahead.
+            </Text>
+            <TouchableOpacity
+              onPress={toggleNudges}
+              style={{
+                flexDirection: "row",
+                alignItems: "center",
+                justifyContent: "space-between",
+                marginBottom: 8,
+              }}
+            >
+              <Text style={{ color: "#cbd5e1", fontSize: 12, flex: 1 }}>
+                Send bedtime nudges
+              </Text>
+              <Ionicons
+                name={nudgeSettings.enabled ? "checkbox" : "square-outline"}
+                size={20}
+                color={nudgeSettings.enabled ? "#38bdf8" : "#94a3b8"}
+              />
+            </TouchableOpacity>
+            <Stepper
+              label="Wind-down lead"
+              value={nudgeSettings.leadMin}
+              display={`${nudgeSettings.leadMin} min`}
+              {...NUDGE_OPTION_RANGES.leadMin}
+              onChange={(v) => changeNudgeOption("leadMin", v)}
+            />
+            <Stepper
+              label="Schedule ahead"
+              value={nudgeSettings.days}
+              display={`${nudgeSettings.days} days`}
+              {...NUDGE_OPTION_RANGES.days}
+              onChange={(v) => changeNudgeOption("days", v)}
+            />
+            <View style={{ flexDirection: "row", marginTop: 6 }}>
+              <LinkButton
+                title="Nudge templates"
+                onPress={() => setIsTemplatesOpen(true)}
+              />
+            </View>
 
-            {moodScreen === "picker" ? (
-              // ---- mood picker screen ----
-              <View
+            <Text
+              style={{
+                color: "#e5e7eb",
+                fontSize: 14,
+                fontWeight: "600",
+                marginTop: 8,
+                marginBottom: 4,
+              }}
+            >
+              Micro-randomized trial
+            </Text>
+            <Text
+              style={{
+                color: "#94a3b8",
+                fontSize: 12,
+                marginBottom: 10,
+              }}
+            >
+              For nudge studies. Each evening a nudge is due, and each preview
+              of tonight's nudge while drifting, randomly gets the usual
+              nudge, an alternate wording or nothing. Every decision is logged
+              with the numbers it was made on and the next night's midsleep as
+              its outcome.
+            </Text>
+            <TouchableOpacity
+              onPress={toggleTrial}
+              style={{
+                flexDirection: "row",
+                alignItems: "center",
+                justifyContent: "space-between",
+                marginBottom: 8,
+              }}
+            >
+              <Text style={{ color: "#cbd5e1", fontSize: 12, flex: 1 }}>
+                Trial mode
+              </Text>
+              <Ionicons
+                name={trialSettings.enabled ? "checkbox" : "square-outline"}
+                size={20}
+                color={trialSettings.enabled ? "#38bdf8" : "#94a3b8"}
+              />
+            </TouchableOpacity>
+            <Stepper
+              label="Usual nudge"
+              value={trialSettings.nudgePct}
+              display={`${trialSettings.nudgePct}%`}
+              {...TRIAL_OPTION_RANGES.nudgePct}
+              onChange={(v) => changeTrialOption("nudgePct", v)}
+            />
+            <Stepper
+              label="Alternate wording"
+              value={trialSettings.alternatePct}
+              display={`${trialSettings.alternatePct}%`}
+              min={TRIAL_OPTION_RANGES.alternatePct.min}
+              max={100 - trialSettings.nudgePct}
+              step={TRIAL_OPTION_RANGES.alternatePct.step}
+              onChange={(v) => changeTrialOption("alternatePct", v)}
+            />
+            <Text style={{ color: "#94a3b8", fontSize: 12, marginBottom: 4 }}>
+              No nudge:{" "}
+              {100 - trialSettings.nudgePct - trialSettings.alternatePct}% ·
+              seed {trialSettings.seed}
+            </Text>
+            <Text style={{ color: "#94a3b8", fontSize: 12, marginBottom: 8 }}>
+              {decisions.length === 0
+                ? "No decisions logged yet."
+                : (() => {
+                    const c = armCounts(decisions);
+                    return `${decisions.length} decisions logged: ${c.nudge} usual, ${c.alternate} alternate, ${c.none} no nudge.`;
+                  })()}
+            </Text>
+            <View style={{ flexDirection: "row", flexWrap: "wrap" }}>
+              <LinkButton title="New seed" onPress={newSeedForTrial} />
+              <LinkButton title="Export trial log" onPress={exportTrialLog} />
+            </View>
+          </View>
+        </View>
+      )}
+
+      {/* Nudge inbox: every nudge sent, with the numbers behind it */}
+      {isInboxOpen && (
+        <View
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "#020617",
+            zIndex: 55,
+          }}
+        >
+          <SafeAreaView style={{ flex: 1 }}>
+            <View
+              style={{
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+                paddingHorizontal: 18,
+                paddingTop: 8,
+              }}
+            >
+              <Text
                 style={{
-                  flex: 1,
-                  paddingHorizontal: 24,
-                  paddingBottom: 24,
+                  color: "#e5e7eb",
+                  fontSize: 18,
+                  fontWeight: "700",
                 }}
               >
-                <ScrollView
-                  contentContainerStyle={{
-                    alignItems: "center",
-                    paddingVertical: 24,
-                  }}
-                >
-                  <Text
-                    style={{
-                      color: "#e5e7eb",
-                      fontSize: 18,
-                      fontWeight: "700",
-                      marginBottom: 6,
-                      textAlign: "center",
-                    }}
-                  >
-                    How are you feeling right now?
-                  </Text>
-                  <Text
-                    style={{
-                      color: "#94a3b8",
-                      fontSize: 13,
-                      marginBottom: 26,
-                      textAlign: "center",
-                    }}
-                  >
-                    Tap a bubble to log your mood. We will track your weekly and
-                    monthly patterns.
-                  </Text>
+                Nudge inbox
+              </Text>
+              <TouchableOpacity
+                onPress={() => setIsInboxOpen(false)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Ionicons name="close" size={20} color="#e5e7eb" />
+              </TouchableOpacity>
+            </View>
 
-                  <View
+            <ScrollView
+              contentContainerStyle={{ padding: 18, paddingBottom: 40 }}
+            >
+              <Text style={{ color: "#94a3b8", fontSize: 12, marginBottom: 8 }}>
+                Every nudge sent, newest first. Tap one to see the numbers
+                that triggered it.
+              </Text>
+              {sentEntries(inbox).length === 0 && (
+                <Text style={{ color: "#cbd5e1", fontSize: 14 }}>
+                  No nudges yet.
+                </Text>
+              )}
+              {sentEntries(inbox).map((e) => {
+                const c = e.context;
+                const expanded = openEntry === e.id;
+                const why = [
+                  `Risk: ${RISK_TIERS[c.risk].label}${
+                    c.direction ? `, ${c.direction}` : ""
+                  }`,
+                  `Last night: ${fmtMinutesAsHours(c.recentLateness)} ${
+                    c.recentLateness >= 0 ? "later" : "earlier"
+                  } than usual`,
+                  `Nights in a row drifting: ${c.driftedNights}`,
+                  `Usual midpoint: ${fmtHM(c.baselineMid)}`,
+                  `Usual bedtime: ${fmtHM(c.bedtimeClock)}`,
+                  `Coverage: ${c.coverage} of ${c.windowDays} days (needs ${c.minCoverage})`,
+                  `Drift threshold: ${fmtMinutesAsHours(c.driftThresholdMin)}`,
+                  ...(e.evening ? [`For the night of ${e.evening}`] : []),
+                  ...(e.templateId ? [`Template: ${e.templateId}`] : []),
+                  ...(e.arm ? [`Trial arm: ${e.arm}`] : []),
+                ];
+                return (
+                  <TouchableOpacity
+                    key={e.id}
+                    activeOpacity={0.8}
+                    onPress={() => setOpenEntry(expanded ? null : e.id)}
                     style={{
-                      flexDirection: "row",
-                      flexWrap: "wrap",
-                      justifyContent: "center",
+                      borderRadius: 12,
+                      padding: 10,
+                      marginBottom: 6,
+                      borderWidth: 1,
+                      borderColor: expanded ? "#38bdf8" : "#1e293b",
                     }}
                   >
-                    {MOODS.map((m) => (
-                      <TouchableOpacity
-                        key={m.key}
-                        onPress={() => recordMood(m.key)}
-                        activeOpacity={0.9}
-                        style={{
-                          width: 120,
-                          height: 120,
-                          borderRadius: 60,
-                          margin: 9,
-                          alignItems: "center",
-                          justifyContent: "center",
-                          shadowColor: m.color,
-                          shadowOpacity: 0.7,
-                          shadowRadius: 18,
-                          shadowOffset: { width: 0, height: 8 },
-                          backgroundColor: m.glow,
-                        }}
-                      >
-                        <View
+                    <Text style={{ color: "#64748b", fontSize: 11 }}>
+                      {new Date(e.sentAt).toLocaleString()} ·{" "}
+                      {ORIGIN_LABELS[e.origin]} · {CHANNEL_LABELS[e.channel]} ·{" "}
+                      {e.openedAt ? "Opened" : "Not opened"}
+                    </Text>
+                    <Text
+                      style={{
+                        color: "#e5e7eb",
+                        fontSize: 13,
+                        fontWeight: "600",
+                        marginTop: 2,
+                      }}
+                    >
+                      {e.title}
+                    </Text>
+                    {expanded && (
+                      <>
+                        <Text
                           style={{
-                            width: 108,
-                            height: 108,
-                            borderRadius: 54,
-                            backgroundColor: "#020617",
-                            borderWidth: 2,
-                            borderColor: m.color,
-                            alignItems: "center",
-                            justifyContent: "center",
+                            color: "#cbd5e1",
+                            fontSize: 12,
+                            marginTop: 4,
+                            marginBottom: 6,
                           }}
                         >
+                          {e.body}
+                        </Text>
+                        {why.map((line) => (
                           <Text
-                            style={{
-                              color: "#e5e7eb",
-                              fontSize: 14,
-                              fontWeight: "700",
-                              marginBottom: 4,
-                              textAlign: "center",
-                            }}
+                            key={line}
+                            style={{ color: "#94a3b8", fontSize: 12 }}
                           >
-                            {m.title}
+                            {line}
                           </Text>
+                        ))}
+                        {e.reasons.map((reason) => (
                           <Text
+                            key={reason}
                             style={{
-                              color: "#cbd5e1",
-                              fontSize: 10,
-                              textAlign: "center",
+                              color: "#94a3b8",
+                              fontSize: 12,
+                              marginTop: 2,
                             }}
                           >
-                            {m.subtitle}
+                            · {reason}
                           </Text>
-                        </View>
-                      </TouchableOpacity>
-                    ))}
-                  </View>
-                </ScrollView>
-              </View>
-            ) : (
-              // ---- mood summary screen ----
+                        ))}
+                      </>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </SafeAreaView>
+        </View>
+      )}
+
+      {/* Nudge template preview: every template, worded for current stats */}
+      {isTemplatesOpen && (
+        <View
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "#020617",
+            zIndex: 55,
+          }}
+        >
+          <SafeAreaView style={{ flex: 1 }}>
+            <View
+              style={{
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+                paddingHorizontal: 18,
+                paddingTop: 8,
+              }}
+            >
+              <Text
+                style={{
+                  color: "#e5e7eb",
+                  fontSize: 18,
+                  fontWeight: "700",
+                }}
+              >
+                Nudge templates
+              </Text>
+              <TouchableOpacity
+                onPress={() => setIsTemplatesOpen(false)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Ionicons name="close" size={20} color="#e5e7eb" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              contentContainerStyle={{ padding: 18, paddingBottom: 40 }}
+            >
+              <Text style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 4 }}>
+                {nudgeSettings.templates === DEFAULT_CATALOG
+                  ? "Built-in templates"
+                  : "Templates loaded from a file"}
+                , {nudgeSettings.templates.templates.length} in all, taking
+                turns{" "}
+                {nudgeSettings.templates.rotation === "random"
+                  ? "in shuffled order"
+                  : "in file order"}{" "}
+                from one evening to the next.
+              </Text>
+              <Text style={{ color: "#94a3b8", fontSize: 12, marginBottom: 8 }}>
+                Each is shown with your current numbers. Tonight's
+                nudge is marked; templates with a streak only take part
+                once that many nights in a row have drifted.
+              </Text>
+
               <View
                 style={{
-                  flex: 1,
-                  paddingHorizontal: 24,
-                  paddingBottom: 24,
+                  flexDirection: "row",
+                  flexWrap: "wrap",
+                  marginBottom: 4,
                 }}
               >
-                <ScrollView
-                  contentContainerStyle={{
-                    paddingVertical: 24,
-                  }}
-                >
-                  <Text
-                    style={{
-                      color: "#e5e7eb",
+                <LinkButton title="Load template file" onPress={loadTemplates} />
+                <LinkButton title="Save templates" onPress={saveTemplates} />
+                {nudgeSettings.templates !== DEFAULT_CATALOG && (
+                  <LinkButton
+                    title="Use built-in"
+                    onPress={resetTemplates}
+                    tone="danger"
+                  />
+                )}
+              </View>
+
+              <Text
+                style={{
+                  color: "#e5e7eb",
+                  fontSize: 14,
+                  fontWeight: "600",
+                  marginBottom: 4,
+                }}
+              >
+                Placeholders
+              </Text>
+              {Object.entries(PLACEHOLDERS).map(([key, meaning]) => (
+                <Text
+                  key={key}
+                  style={{ color: "#94a3b8", fontSize: 12, marginBottom: 2 }}
+                >
+                  {`{${key}}`}: {meaning}
+                </Text>
+              ))}
+
+              {SITUATIONS.map((s) => {
+                const current =
+                  s.tier === stats.risk && s.direction === stats.direction;
+                return (
+                  <View key={situationLabel(s.tier, s.direction)}>
+                    <Text
+                      style={{
+                        color: RISK_TIERS[s.tier].color,
+                        fontSize: 14,
+                        fontWeight: "600",
+                        marginTop: 14,
+                        marginBottom: 4,
+                      }}
+                    >
+                      {situationLabel(s.tier, s.direction)}
+                      {current ? " (now)" : ""}
+                    </Text>
+                    {[false, true]
+                      .flatMap((alternate) =>
+                        templatesFor(
+                          nudgeSettings.templates.templates,
+                          s.tier,
+                          s.direction,
+                          Infinity,
+                          alternate
+                        )
+                      )
+                      .map((t) => {
+                        const text = renderTemplate(
+                          t,
+                          stats,
+                          {
+                            bedtimeClock: baselineBedtime(stats),
+                            direction: s.direction,
+                          },
+                          nudgeSettings.templates
+                        );
+                        const picked =
+                          current && t.id === tonightsNudge.templateId;
+                        return (
+                          <View
+                            key={t.id}
+                            style={{
+                              borderRadius: 12,
+                              padding: 10,
+                              marginBottom: 6,
+                              borderWidth: 1,
+                              borderColor: picked ? "#38bdf8" : "#1e293b",
+                            }}
+                          >
+                            <Text
+                              style={{
+                                color: "#e5e7eb",
+                                fontSize: 13,
+                                fontWeight: "600",
+                              }}
+                            >
+                              {text.title}
+                            </Text>
+                            <Text
+                              style={{
+                                color: "#cbd5e1",
+                                fontSize: 12,
+                                marginTop: 2,
+                              }}
+                            >
+                              {text.body}
+                            </Text>
+                            <Text
+                              style={{
+                                color: "#64748b",
+                                fontSize: 11,
+                                marginTop: 4,
+                              }}
+                            >
+                              {t.id}
+                              {t.minStreak
+                                ? ` · from ${t.minStreak} nights in a row`
+                                : ""}
+                              {t.alternate ? " · trial alternate" : ""}
+                              {picked ? " · tonight" : ""}
+                            </Text>
+                          </View>
+                        );
+                      })}
+                  </View>
+                );
+              })}
+            </ScrollView>
+          </SafeAreaView>
+        </View>
+      )}
+
+      {/* Mood check-in overlay (picker + summary) */}
+      {isMoodOverlayOpen && (
+        <View
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "#020617",
+            zIndex: 60,
+          }}
+        >
+          <SafeAreaView style={{ flex: 1 }}>
+            {/* top bar with summary/back + X */}
+            <View
+              style={{
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+                paddingHorizontal: 18,
+                paddingTop: 8,
+              }}
+            >
+              <TouchableOpacity
+                onPress={() =>
+                  setMoodScreen((prev) =>
+                    prev === "picker" ? "summary" : "picker"
+                  )
+                }
+                style={{
+                  paddingHorizontal: 12,
+                  paddingVertical: 6,
+                  borderRadius: 999,
+                  borderWidth: 1,
+                  borderColor: "#38bdf8",
+                  backgroundColor: "rgba(15,23,42,0.9)",
+                }}
+              >
+                <Text
+                  style={{
+                    color: "#e5e7eb",
+                    fontSize: 12,
+                    fontWeight: "600",
+                  }}
+                >
+                  {moodScreen === "picker"
+                    ? "Mood check-ins summary"
+                    : "Back to check-in"}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                onPress={() => setIsMoodOverlayOpen(false)}
+                style={{
+                  width: 32,
+                  height: 32,
+                  borderRadius: 16,
+                  backgroundColor: "rgba(15,23,42,0.9)",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  borderWidth: 1,
+                  borderColor: "rgba(148,163,184,0.7)",
+                }}
+              >
+                <Ionicons name="close" size={18} color="#e5e7eb" />
+              </TouchableOpacity>
+            </View>
+
+            {moodScreen === "picker" ? (
+              // ---- mood picker screen ----
+              <View
+                style={{
+                  flex: 1,
+                  paddingHorizontal: 24,
+                  paddingBottom: 24,
+                }}
+              >
+                <ScrollView
+                  contentContainerStyle={{
+                    alignItems: "center",
+                    paddingVertical: 24,
+                  }}
+                >
+                  <Text
+                    style={{
+                      color: "#e5e7eb",
+                      fontSize: 18,
+                      fontWeight: "700",
+                      marginBottom: 6,
+                      textAlign: "center",
+                    }}
+                  >
+                    How are you feeling right now?
+                  </Text>
+                  <Text
+                    style={{
+                      color: "#94a3b8",
+                      fontSize: 13,
+                      marginBottom: 26,
+                      textAlign: "center",
+                    }}
+                  >
+                    Tap a bubble to log your mood. We will track your weekly and
+                    monthly patterns.
+                  </Text>
+
+                  <View
+                    style={{
+                      flexDirection: "row",
+                      flexWrap: "wrap",
+                      justifyContent: "center",
+                    }}
+                  >
+                    {MOODS.map((m) => (
+                      <TouchableOpacity
+                        key={m.key}
+                        onPress={() => recordMood(m.key)}
+                        activeOpacity={0.9}
+                        style={{
+                          width: 120,
+                          height: 120,
+                          borderRadius: 60,
+                          margin: 9,
+                          alignItems: "center",
+                          justifyContent: "center",
+                          shadowColor: m.color,
+                          shadowOpacity: 0.7,
+                          shadowRadius: 18,
+                          shadowOffset: { width: 0, height: 8 },
+                          backgroundColor: m.glow,
+                        }}
+                      >
+                        <View
+                          style={{
+                            width: 108,
+                            height: 108,
+                            borderRadius: 54,
+                            backgroundColor: "#020617",
+                            borderWidth: 2,
+                            borderColor: m.color,
+                            alignItems: "center",
+                            justifyContent: "center",
+                          }}
+                        >
+                          <Text
+                            style={{
+                              color: "#e5e7eb",
+                              fontSize: 14,
+                              fontWeight: "700",
+                              marginBottom: 4,
+                              textAlign: "center",
+                            }}
+                          >
+                            {m.title}
+                          </Text>
+                          <Text
+                            style={{
+                              color: "#cbd5e1",
+                              fontSize: 10,
+                              textAlign: "center",
+                            }}
+                          >
+                            {m.subtitle}
+                          </Text>
+                        </View>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </ScrollView>
+              </View>
+            ) : (
+              // ---- mood summary screen ----
+              <View
+                style={{
+                  flex: 1,
+                  paddingHorizontal: 24,
+                  paddingBottom: 24,
+                }}
+              >
+                <ScrollView
+                  contentContainerStyle={{
+                    paddingVertical: 24,
+                  }}
+                >
+                  <Text
+                    style={{
+                      color: "#e5e7eb",
                       fontSize: 18,
                       fontWeight: "700",
                       marginBottom: 6,
@@ -1853,11 +3565,722 @@ export default function App() {
                           </View>
                         );
                       })}
-                    </>
-                  )}
-                </ScrollView>
-              </View>
-            )}
+
+                      <View style={{ height: 18 }} />
+
+                      <Text
+                        style={{
+                          color: "#94a3b8",
+                          fontSize: 13,
+                          marginBottom: 8,
+                        }}
+                      >
+                        Recent check-ins
+                      </Text>
+                      {moodEntries.slice(0, 10).map((entry) => {
+                        const meta = MOODS.find((m) => m.key === entry.mood);
+                        return (
+                          <View
+                            key={entry.id}
+                            style={{
+                              flexDirection: "row",
+                              alignItems: "center",
+                              marginBottom: 6,
+                            }}
+                          >
+                            <View
+                              style={{
+                                width: 10,
+                                height: 10,
+                                borderRadius: 5,
+                                backgroundColor: meta?.color ?? "#e5e7eb",
+                                marginRight: 8,
+                              }}
+                            />
+                            <Text
+                              style={{
+                                color: "#e5e7eb",
+                                fontSize: 13,
+                                flex: 1,
+                              }}
+                            >
+                              {meta?.title ?? entry.mood} ·{" "}
+                              {new Date(entry.at).toLocaleString([], {
+                                weekday: "short",
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              })}
+                            </Text>
+                            <TouchableOpacity
+                              onPress={() => removeMood(entry.id)}
+                              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                            >
+                              <Ionicons name="close" size={16} color="#9ca3af" />
+                            </TouchableOpacity>
+                          </View>
+                        );
+                      })}
+                    </>
+                  )}
+                </ScrollView>
+              </View>
+            )}
+          </SafeAreaView>
+        </View>
+      )}
+
+      {/* CSV import summary and merge preview (nothing is written until confirmed) */}
+      {importReport && (
+        <View
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "#020617",
+            zIndex: 65,
+          }}
+        >
+          <SafeAreaView style={{ flex: 1 }}>
+            <View
+              style={{
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+                paddingHorizontal: 18,
+                paddingTop: 8,
+              }}
+            >
+              <Text
+                style={{
+                  color: "#e5e7eb",
+                  fontSize: 18,
+                  fontWeight: "700",
+                }}
+              >
+                {mergePlan ? "Merge preview" : "Import summary"}
+              </Text>
+              <TouchableOpacity
+                onPress={closeImport}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Ionicons name="close" size={20} color="#e5e7eb" />
+              </TouchableOpacity>
+            </View>
+
+            {mergePlan ? (
+              // ---- merge preview ----
+              <ScrollView
+                contentContainerStyle={{ padding: 18, paddingBottom: 40 }}
+              >
+                <Text
+                  style={{ color: "#4ade80", fontSize: 14, marginBottom: 2 }}
+                >
+                  + {mergePlan.added.length} new nights
+                </Text>
+                <Text
+                  style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 2 }}
+                >
+                  = {mergePlan.identical.length} already stored (ignored)
+                </Text>
+                {importReport.moods.length > 0 && (
+                  <Text
+                    style={{ color: "#4ade80", fontSize: 14, marginBottom: 2 }}
+                  >
+                    + {newMoods(moodEntries, importReport.moods).length} new
+                    mood check-ins
+                  </Text>
+                )}
+                {mergePlan.clashing.length > 0 && (
+                  <Text
+                    style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 2 }}
+                  >
+                    – {mergePlan.clashing.length} clash with an earlier night
+                    in the file (left out)
+                  </Text>
+                )}
+                <Text
+                  style={{ color: "#fbbf24", fontSize: 14, marginBottom: 2 }}
+                >
+                  ! {mergePlan.conflicts.length} conflicts to resolve
+                </Text>
+                <Text
+                  style={{ color: "#94a3b8", fontSize: 14, marginBottom: 12 }}
+                >
+                  {mergePlan.untouched} stored nights stay as they are
+                </Text>
+
+                {mergePlan.conflicts.map((c) => (
+                  <View
+                    key={c.key}
+                    style={{
+                      paddingVertical: 10,
+                      borderTopWidth: 1,
+                      borderTopColor: "rgba(255,255,255,0.06)",
+                    }}
+                  >
+                    <Text
+                      style={{
+                        color: "#fbbf24",
+                        fontWeight: "700",
+                        fontSize: 13,
+                        marginBottom: 4,
+                      }}
+                    >
+                      {c.kind === "duplicate"
+                        ? `Same date ${c.incoming.date}`
+                        : `Overlapping times on ${c.incoming.date}`}
+                    </Text>
+                    <Text style={{ color: "#cbd5e1", fontSize: 13 }}>
+                      Stored: {fmtDate(c.existing.sleep_start)} · Bed{" "}
+                      {fmtClock(c.existing.sleep_start, c.existing)} ·
+                      Wake {fmtClock(c.existing.sleep_end, c.existing)}
+                      {c.existing.source ? ` (${c.existing.source})` : ""}
+                    </Text>
+                    <Text
+                      style={{ color: "#cbd5e1", fontSize: 13, marginBottom: 6 }}
+                    >
+                      Imported: {fmtDate(c.incoming.sleep_start)} · Bed{" "}
+                      {fmtClock(c.incoming.sleep_start, c.incoming)} ·
+                      Wake {fmtClock(c.incoming.sleep_end, c.incoming)}
+                    </Text>
+                    <View style={{ flexDirection: "row", flexWrap: "wrap" }}>
+                      {CONFLICT_CHOICES.map(({ choice, label }) => {
+                        const selected = c.choice === choice;
+                        return (
+                          <TouchableOpacity
+                            key={choice}
+                            onPress={() => chooseConflict(c.key, choice)}
+                            style={{
+                              paddingHorizontal: 10,
+                              paddingVertical: 5,
+                              borderRadius: 999,
+                              marginRight: 6,
+                              marginBottom: 6,
+                              borderWidth: 1,
+                              borderColor: selected
+                                ? "#38bdf8"
+                                : "rgba(148,163,184,0.5)",
+                              backgroundColor: selected
+                                ? "rgba(56,189,248,0.22)"
+                                : "transparent",
+                            }}
+                          >
+                            <Text
+                              style={{
+                                color: "#e5e7eb",
+                                fontSize: 12,
+                                fontWeight: "700",
+                              }}
+                            >
+                              {label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                ))}
+
+                <View
+                  style={{
+                    flexDirection: "row",
+                    flexWrap: "wrap",
+                    marginTop: 12,
+                  }}
+                >
+                  <LinkButton title="Apply merge" onPress={applyMerge} />
+                  <LinkButton
+                    title="Back"
+                    onPress={() => setMergePlan(null)}
+                  />
+                </View>
+              </ScrollView>
+            ) : (
+              // ---- row validation summary ----
+              <ScrollView
+                contentContainerStyle={{ padding: 18, paddingBottom: 40 }}
+              >
+                <Text
+                  style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 4 }}
+                >
+                  {importReport.rows.length} rows read from{" "}
+                  {importReport.format}.
+                  {importReport.moods.length > 0 &&
+                    ` The file also has ${importReport.moods.length} mood check-ins; ones not stored yet are added either way.`}
+                </Text>
+                <Text
+                  style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 12 }}
+                >
+                  <Text style={{ color: IMPORT_STATUS_COLORS.accepted }}>
+                    {importReport.accepted} accepted
+                  </Text>
+                  {" · "}
+                  <Text style={{ color: IMPORT_STATUS_COLORS.suspicious }}>
+                    {importReport.suspicious} suspicious
+                  </Text>
+                  {" · "}
+                  <Text style={{ color: IMPORT_STATUS_COLORS.skipped }}>
+                    {importReport.skipped} skipped
+                  </Text>
+                </Text>
+                <Text
+                  style={{ color: "#94a3b8", fontSize: 13, marginBottom: 12 }}
+                >
+                  Merging keeps your stored nights and lets you settle any
+                  clashes; replacing discards them. Suspicious rows are valid
+                  but look unusual; skipped rows cannot be imported.
+                </Text>
+
+                {importReport.suspicious > 0 && (
+                  <TouchableOpacity
+                    onPress={() => setIncludeSuspicious((prev) => !prev)}
+                    style={{
+                      flexDirection: "row",
+                      alignItems: "center",
+                      marginBottom: 12,
+                    }}
+                  >
+                    <Ionicons
+                      name={includeSuspicious ? "checkbox" : "square-outline"}
+                      size={18}
+                      color="#38bdf8"
+                      style={{ marginRight: 8 }}
+                    />
+                    <Text style={{ color: "#e5e7eb", fontSize: 14 }}>
+                      Include {importReport.suspicious} suspicious rows
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
+                <View
+                  style={{
+                    flexDirection: "row",
+                    flexWrap: "wrap",
+                    marginBottom: 8,
+                  }}
+                >
+                  <LinkButton
+                    title="Merge with stored nights"
+                    onPress={previewMerge}
+                  />
+                  <LinkButton
+                    title="Replace all"
+                    tone="danger"
+                    onPress={replaceWithImport}
+                  />
+                  <LinkButton title="Cancel" onPress={closeImport} />
+                </View>
+
+                {importReport.rows
+                  .filter((r) => r.status !== "accepted")
+                  .map((r, i) => (
+                    <View
+                      key={`${i}-${r.line}`}
+                      style={{
+                        paddingVertical: 8,
+                        borderTopWidth: 1,
+                        borderTopColor: "rgba(255,255,255,0.06)",
+                      }}
+                    >
+                      <Text
+                        style={{
+                          color: IMPORT_STATUS_COLORS[r.status],
+                          fontWeight: "700",
+                          fontSize: 13,
+                        }}
+                      >
+                        Line {r.line} · {r.status}
+                      </Text>
+                      <Text style={{ color: "#64748b", fontSize: 12 }}>
+                        {r.fields.join(", ")}
+                      </Text>
+                      {r.reasons.map((reason) => (
+                        <Text
+                          key={reason}
+                          style={{ color: "#cbd5e1", fontSize: 13 }}
+                        >
+                          {reason}
+                        </Text>
+                      ))}
+                    </View>
+                  ))}
+                {importReport.accepted > 0 && (
+                  <Text
+                    style={{ color: "#94a3b8", fontSize: 13, marginTop: 8 }}
+                  >
+                    {importReport.accepted} accepted rows are not listed.
+                  </Text>
+                )}
+              </ScrollView>
+            )}
+          </SafeAreaView>
+        </View>
+      )}
+
+      {nightForm && (
+        <View
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "#020617",
+            zIndex: 65,
+          }}
+        >
+          <SafeAreaView style={{ flex: 1 }}>
+            <View
+              style={{
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+                paddingHorizontal: 18,
+                paddingTop: 8,
+              }}
+            >
+              <Text
+                style={{
+                  color: "#e5e7eb",
+                  fontSize: 18,
+                  fontWeight: "700",
+                }}
+              >
+                {nightForm.editing ? "Edit night" : "Add night"}
+              </Text>
+              <TouchableOpacity
+                onPress={() => setNightForm(null)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Ionicons name="close" size={20} color="#e5e7eb" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              contentContainerStyle={{ padding: 18, paddingBottom: 40 }}
+              keyboardShouldPersistTaps="handled"
+            >
+              <Text style={{ color: "#94a3b8", fontSize: 13, marginBottom: 14 }}>
+                Times are on this phone's clock. A bedtime later than the wake
+                time counts as the evening before the wake date.
+              </Text>
+              <Field
+                label="Wake date"
+                value={nightForm.draft.date}
+                placeholder="YYYY-MM-DD"
+                onChangeText={(date) => changeDraft({ date })}
+              />
+              <Field
+                label="Bedtime (when you tried to sleep)"
+                value={nightForm.draft.bedtime}
+                placeholder="23:00"
+                onChangeText={(bedtime) => changeDraft({ bedtime })}
+              />
+              <Field
+                label="Wake time (final awakening)"
+                value={nightForm.draft.wake}
+                placeholder="07:00"
+                onChangeText={(wake) => changeDraft({ wake })}
+              />
+              <Text
+                style={{
+                  color: "#cbd5e1",
+                  fontSize: 13,
+                  fontWeight: "600",
+                  marginBottom: 6,
+                }}
+              >
+                Main sleep or nap
+              </Text>
+              <View style={{ flexDirection: "row", flexWrap: "wrap" }}>
+                {EPISODE_CHOICES.map(({ episode, label }) => {
+                  const selected = nightForm.draft.episode === episode;
+                  return (
+                    <TouchableOpacity
+                      key={label}
+                      onPress={() => changeDraft({ episode })}
+                      style={{
+                        paddingHorizontal: 10,
+                        paddingVertical: 5,
+                        borderRadius: 999,
+                        marginRight: 6,
+                        marginBottom: 6,
+                        borderWidth: 1,
+                        borderColor: selected
+                          ? "#38bdf8"
+                          : "rgba(148,163,184,0.5)",
+                        backgroundColor: selected
+                          ? "rgba(56,189,248,0.22)"
+                          : "transparent",
+                      }}
+                    >
+                      <Text
+                        style={{
+                          color: "#e5e7eb",
+                          fontSize: 12,
+                          fontWeight: "700",
+                        }}
+                      >
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={{ color: "#94a3b8", fontSize: 12, marginBottom: 12 }}>
+                Left to us, sleep under 3 hours in the daytime counts as a nap,
+                and so does any shorter sleep on a day that already has a
+                longer one. Naps do not move your baseline.
+              </Text>
+
+              <Text
+                style={{
+                  color: "#e5e7eb",
+                  fontSize: 14,
+                  fontWeight: "600",
+                  marginTop: 6,
+                  marginBottom: 4,
+                }}
+              >
+                Sleep diary (optional)
+              </Text>
+              <Text style={{ color: "#94a3b8", fontSize: 12, marginBottom: 10 }}>
+                Answers from the Consensus Sleep Diary. They give total sleep
+                time and sleep efficiency for the night.
+              </Text>
+              <Field
+                label="Got into bed at"
+                value={nightForm.draft.inBed}
+                placeholder="22:30"
+                onChangeText={(inBed) => changeDraft({ inBed })}
+              />
+              <Field
+                label="Minutes to fall asleep"
+                value={nightForm.draft.latency}
+                placeholder="15"
+                onChangeText={(latency) => changeDraft({ latency })}
+              />
+              <Field
+                label="Times woken during the night"
+                value={nightForm.draft.awakenings}
+                placeholder="2"
+                onChangeText={(awakenings) => changeDraft({ awakenings })}
+              />
+              <Field
+                label="Minutes awake in total during those awakenings"
+                value={nightForm.draft.waso}
+                placeholder="20"
+                onChangeText={(waso) => changeDraft({ waso })}
+              />
+              <Field
+                label="Got out of bed at"
+                value={nightForm.draft.outOfBed}
+                placeholder="07:15"
+                onChangeText={(outOfBed) => changeDraft({ outOfBed })}
+              />
+              <Text
+                style={{
+                  color: "#cbd5e1",
+                  fontSize: 13,
+                  fontWeight: "600",
+                  marginBottom: 6,
+                }}
+              >
+                Sleep quality
+              </Text>
+              <View
+                style={{
+                  flexDirection: "row",
+                  flexWrap: "wrap",
+                  marginBottom: 8,
+                }}
+              >
+                {([1, 2, 3, 4, 5] as const).map((q) => {
+                  const selected = nightForm.draft.quality === q;
+                  return (
+                    <TouchableOpacity
+                      key={q}
+                      onPress={() =>
+                        changeDraft({ quality: selected ? null : q })
+                      }
+                      style={{
+                        paddingHorizontal: 10,
+                        paddingVertical: 5,
+                        borderRadius: 999,
+                        marginRight: 6,
+                        marginBottom: 6,
+                        borderWidth: 1,
+                        borderColor: selected
+                          ? "#38bdf8"
+                          : "rgba(148,163,184,0.5)",
+                        backgroundColor: selected
+                          ? "rgba(56,189,248,0.22)"
+                          : "transparent",
+                      }}
+                    >
+                      <Text
+                        style={{
+                          color: "#e5e7eb",
+                          fontSize: 12,
+                          fontWeight: "700",
+                        }}
+                      >
+                        {QUALITY_LABELS[q]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {nightForm.editing?.source &&
+                nightForm.editing.source !== "manual" && (
+                  <Text
+                    style={{ color: "#94a3b8", fontSize: 13, marginBottom: 8 }}
+                  >
+                    Imported from {nightForm.editing.source}. Saving marks it
+                    as entered by hand.
+                  </Text>
+                )}
+              {nightForm.error && (
+                <Text style={{ color: "#ff7a7a", fontSize: 14, marginBottom: 8 }}>
+                  {nightForm.error}
+                </Text>
+              )}
+
+              <View
+                style={{
+                  flexDirection: "row",
+                  flexWrap: "wrap",
+                  marginTop: 12,
+                }}
+              >
+                <LinkButton title="Save" onPress={saveNightForm} />
+                {nightForm.editing && (
+                  <LinkButton
+                    title="Delete night"
+                    onPress={deleteFormNight}
+                    tone="danger"
+                  />
+                )}
+                <LinkButton title="Cancel" onPress={() => setNightForm(null)} />
+              </View>
+            </ScrollView>
+          </SafeAreaView>
+        </View>
+      )}
+
+      {pendingRestore && (
+        <View
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: "#020617",
+            zIndex: 65,
+          }}
+        >
+          <SafeAreaView style={{ flex: 1 }}>
+            <View
+              style={{
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+                paddingHorizontal: 18,
+                paddingTop: 8,
+              }}
+            >
+              <Text
+                style={{
+                  color: "#e5e7eb",
+                  fontSize: 18,
+                  fontWeight: "700",
+                }}
+              >
+                Restore backup
+              </Text>
+              <TouchableOpacity
+                onPress={() => setPendingRestore(null)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Ionicons name="close" size={20} color="#e5e7eb" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              contentContainerStyle={{ padding: 18, paddingBottom: 40 }}
+            >
+              <Text style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 12 }}>
+                Backup from {fmtDate(pendingRestore.preview.backupCreatedAt)}
+                {pendingRestore.preview.incomingRange
+                  ? ` with nights from ${
+                      pendingRestore.preview.incomingRange.from
+                    } to ${pendingRestore.preview.incomingRange.to}.`
+                  : " with no nights."}
+              </Text>
+
+              <Text style={{ color: "#ff7a7a", fontSize: 14, marginBottom: 2 }}>
+                - {pendingRestore.preview.current.nights} stored nights and{" "}
+                {pendingRestore.preview.current.moods} mood check-ins are
+                replaced
+              </Text>
+              <Text style={{ color: "#4ade80", fontSize: 14, marginBottom: 2 }}>
+                + {pendingRestore.preview.incoming.nights} nights and{" "}
+                {pendingRestore.preview.incoming.moods} mood check-ins from the
+                backup
+              </Text>
+              {(pendingRestore.preview.current.decisions > 0 ||
+                pendingRestore.preview.incoming.decisions > 0) && (
+                <Text
+                  style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 2 }}
+                >
+                  Trial decision log: {pendingRestore.preview.current.decisions}{" "}
+                  decisions now, {pendingRestore.preview.incoming.decisions} in
+                  the backup
+                </Text>
+              )}
+              {(pendingRestore.preview.current.inbox > 0 ||
+                pendingRestore.preview.incoming.inbox > 0) && (
+                <Text
+                  style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 2 }}
+                >
+                  Nudge inbox: {pendingRestore.preview.current.inbox} nudges
+                  now, {pendingRestore.preview.incoming.inbox} in the backup
+                </Text>
+              )}
+              <Text style={{ color: "#cbd5e1", fontSize: 14, marginBottom: 12 }}>
+                {pendingRestore.preview.changedSettings.length > 0
+                  ? `Settings that change: ${pendingRestore.preview.changedSettings
+                      .map((k) => SETTING_LABELS[k] ?? k)
+                      .join(", ")}.`
+                  : "Settings stay the same."}
+              </Text>
+
+              <Text style={{ color: "#94a3b8", fontSize: 13 }}>
+                Everything stored on this device is replaced by the backup.
+                Back up first if you may want the current data later.
+              </Text>
+
+              <View
+                style={{
+                  flexDirection: "row",
+                  flexWrap: "wrap",
+                  marginTop: 12,
+                }}
+              >
+                <LinkButton
+                  title="Replace with backup"
+                  onPress={confirmRestore}
+                  tone="danger"
+                />
+                <LinkButton
+                  title="Cancel"
+                  onPress={() => setPendingRestore(null)}
+                />
+              </View>
+            </ScrollView>
           </SafeAreaView>
         </View>
       )}
@@ -1879,7 +4302,7 @@ export default function App() {
               padding: 16,
               backgroundColor: "#020617",
               borderWidth: 1,
-              borderColor: stats.drift ? "#f97373" : "#22c55e",
+              borderColor: riskColor,
               shadowColor: "#000",
               shadowOpacity: 0.8,
               shadowRadius: 18,
@@ -0,0 +1,172 @@
+// backup.ts
+// One-file snapshot of everything the app stores (the versioned envelope from
+// schema.ts) and the checks a snapshot must pass before it may replace the
+// stored data. Older backups are upgraded with the same migrations as stored
+// data, so a backup from any earlier app version can be restored.
+
+import type { Settings } from "./storage";
+import { SchemaError, StoredDoc, migrate } from "./schema";
+
+export const BACKUP_FORMAT = "nudgekit-backup";
+
+export type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  createdAt: string; // ISO timestamp
+  data: StoredDoc;
+};
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+type Counts = {
+  nights: number;
+  moods: number;
+  decisions: number;
+  inbox: number;
+};
+
+// What a restore would replace, for the confirmation screen
+export type RestorePreview = {
+  backupCreatedAt: string;
+  fromSchema: number; // schema version the backup was written with
+  current: Counts;
+  incoming: Counts;
+  incomingRange: { from: string; to: string } | null; // night dates
+  changedSettings: (keyof Settings)[];
+};
+
+/* ---------------- writing ---------------- */
+
+export function buildBackup(doc: StoredDoc, now = new Date()): string {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    createdAt: now.toISOString(),
+    data: doc,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function backupFileName(now = new Date()): string {
+  return `nudgekit-backup-${now.toISOString().slice(0, 10)}.json`;
+}
+
+/* ---------------- reading ---------------- */
+
+type Fields = Record<string, unknown>;
+
+const isFields = (v: unknown): v is Fields =>
+  v != null && typeof v === "object" && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === "string";
+const isTime = (v: unknown) => isString(v) && !Number.isNaN(Date.parse(v));
+
+// Check every record so a bad file is rejected before anything is replaced
+function validateDoc(doc: StoredDoc) {
+  if (!Array.isArray(doc.nights) || !Array.isArray(doc.moods)) {
+    throw new BackupError("Backup is missing its nights or mood check-ins.");
+  }
+  doc.nights.forEach((n, i) => {
+    if (
+      !isString(n?.id) ||
+      !isString(n.date) ||
+      !isTime(n.sleep_start) ||
+      !isTime(n.sleep_end)
+    ) {
+      throw new BackupError(`Night ${i + 1} in the backup is incomplete.`);
+    }
+  });
+  doc.moods.forEach((m, i) => {
+    if (!isString(m?.id) || !isString(m.mood) || !isTime(m.at)) {
+      throw new BackupError(`Mood check-in ${i + 1} in the backup is invalid.`);
+    }
+  });
+  if (!Array.isArray(doc.decisions)) {
+    throw new BackupError("Backup trial decision log is not readable.");
+  }
+  doc.decisions.forEach((d, i) => {
+    if (!isString(d?.id) || !isTime(d.at) || !isString(d.arm)) {
+      throw new BackupError(
+        `Trial decision ${i + 1} in the backup is invalid.`
+      );
+    }
+  });
+  if (!Array.isArray(doc.inbox)) {
+    throw new BackupError("Backup nudge inbox is not readable.");
+  }
+  doc.inbox.forEach((e, i) => {
+    if (!isString(e?.id) || !isTime(e.sentAt) || !isString(e.body)) {
+      throw new BackupError(`Inbox nudge ${i + 1} in the backup is invalid.`);
+    }
+  });
+  if (!doc.settings || typeof doc.settings !== "object") {
+    throw new BackupError("Backup settings are not readable.");
+  }
+}
+
+// Parse, upgrade and validate a backup file. Throws BackupError with a message
+// fit for the user when the file cannot be restored.
+export function parseBackup(text: string): {
+  doc: StoredDoc;
+  createdAt: string;
+  fromSchema: number;
+} {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError("File is not valid JSON.");
+  }
+  if (!isFields(raw) || raw.format !== BACKUP_FORMAT || raw.data == null) {
+    throw new BackupError("File is not a NudgeKit backup.");
+  }
+
+  let migrated: ReturnType<typeof migrate>;
+  try {
+    migrated = migrate(raw.data);
+  } catch (e) {
+    if (e instanceof SchemaError) throw new BackupError(e.message);
+    throw e;
+  }
+
+  validateDoc(migrated.doc);
+  return {
+    doc: migrated.doc,
+    createdAt: isString(raw.createdAt) ? raw.createdAt : migrated.doc.updatedAt,
+    fromSchema: migrated.from,
+  };
+}
+
+const counts = (doc: StoredDoc): Counts => ({
+  nights: doc.nights.length,
+  moods: doc.moods.length,
+  decisions: doc.decisions.length,
+  inbox: doc.inbox.length,
+});
+
+export function previewRestore(
+  current: StoredDoc,
+  backup: { doc: StoredDoc; createdAt: string; fromSchema: number }
+): RestorePreview {
+  const dates = backup.doc.nights.map((n) => n.date).sort();
+  const keys = new Set([
+    ...Object.keys(current.settings),
+    ...Object.keys(backup.doc.settings),
+  ]) as Set<keyof Settings>;
+
+  return {
+    backupCreatedAt: backup.createdAt,
+    fromSchema: backup.fromSchema,
+    current: counts(current),
+    incoming: counts(backup.doc),
+    incomingRange:
+      dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null,
+    changedSettings: [...keys].filter(
+      (k) =>
+        JSON.stringify(current.settings[k]) !==
+        JSON.stringify(backup.doc.settings[k])
+    ),
+  };
+}
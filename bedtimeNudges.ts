@@ -0,0 +1,183 @@
+// bedtimeNudges.ts
+// Plans the recurring bedtime nudge: one notification per evening, a set
+// lead time before the usual bedtime of the baseline nights, while the risk
+// tier calls for one (see riskTiers.ts). The wording comes from the template
+// catalog (nudgeTemplates.ts). Planning is UI-free; notifications.ts hands the
+// plan to expo-notifications.
+
+import type { Settings } from "./storage";
+import type { TrialArm } from "./microTrial";
+import {
+  DriftDirection,
+  MINUTES_PER_DAY,
+  RiskTier,
+  SleepSummary,
+  circularMeanMinuteOfDay,
+  clampTo,
+} from "./sleepAnalytics";
+import { RISK_TIERS } from "./riskTiers";
+import {
+  DEFAULT_CATALOG,
+  TemplateCatalog,
+  renderNudge,
+  storedCatalog,
+} from "./nudgeTemplates";
+import {
+  ZoneRef,
+  clockOf,
+  dayOf,
+  deviceZone,
+  epochFromLocal,
+  localDayStart,
+  localMinutes,
+} from "./timezone";
+
+export type NudgeOptions = {
+  enabled?: boolean;
+  leadMin?: number; // wind-down starts this long before the usual bedtime
+  days?: number; // evenings scheduled ahead
+  templates?: TemplateCatalog; // the built-in catalog when absent
+};
+
+// Allowed ranges for the user-tunable options (inclusive)
+export const NUDGE_OPTION_RANGES = {
+  leadMin: { min: 0, max: 180, step: 15 },
+  days: { min: 1, max: 14, step: 1 },
+} as const;
+
+export const DEFAULT_NUDGE_LEAD_MIN = 60;
+export const DEFAULT_NUDGE_DAYS = 7;
+
+// Bedtimes before this clock time belong to the evening before (after
+// midnight); later ones to the same evening
+const EVENING_CUTOFF_MIN = 12 * 60;
+
+export type PlannedNudge = {
+  id: string; // notification identifier, stable per evening
+  evening: string; // YYYY-MM-DD the night starts on
+  at: Date; // when the notification fires
+  bedtimeClock: number; // target bedtime, minutes after local midnight
+  templateId: string; // catalog variant the wording came from
+  title: string;
+  body: string;
+  arm?: TrialArm; // set in trial mode (see microTrial.ts); "none" is not sent
+};
+
+// The numbers a nudge decision was made on, kept with logged nudges
+export type NudgeContext = {
+  risk: RiskTier;
+  direction: DriftDirection | null;
+  driftedNights: number;
+  recentLateness: number; // minutes; positive = later than baseline
+  baselineMid: number | null; // minutes after local midnight
+  bedtimeClock: number | null; // usual bedtime, minutes after local midnight
+  coverage: number;
+  minCoverage: number;
+  windowDays: number;
+  driftThresholdMin: number;
+};
+
+export function resolveNudgeOptions(
+  opts: NudgeOptions = {}
+): Required<NudgeOptions> {
+  const r = NUDGE_OPTION_RANGES;
+  return {
+    enabled: opts.enabled ?? true,
+    leadMin: clampTo(opts.leadMin, DEFAULT_NUDGE_LEAD_MIN, r.leadMin),
+    days: clampTo(opts.days, DEFAULT_NUDGE_DAYS, r.days),
+    templates: opts.templates ?? DEFAULT_CATALOG,
+  };
+}
+
+export const nudgeOptionsFromSettings = (s: Settings): NudgeOptions => ({
+  enabled: s.nudgesOn,
+  leadMin: s.nudgeLeadMin,
+  days: s.nudgeDays,
+  templates: storedCatalog(s.nudgeTemplates),
+});
+
+/* ---------------- planning ---------------- */
+
+// Usual bedtime: circular mean of the baseline nights' bedtimes, on the
+// clock each night was slept on. Null without a baseline.
+export function baselineBedtime(summary: SleepSummary): number | null {
+  return circularMeanMinuteOfDay(
+    summary.baseline.map((d) => clockOf(d.start_local_min))
+  );
+}
+
+export const nudgeContext = (summary: SleepSummary): NudgeContext => ({
+  risk: summary.risk,
+  direction: summary.direction,
+  driftedNights: summary.driftedNights,
+  recentLateness: summary.recentLateness,
+  baselineMid: summary.baselineMid,
+  bedtimeClock: baselineBedtime(summary),
+  coverage: summary.coverage,
+  minCoverage: summary.minCoverage,
+  windowDays: summary.windowDays,
+  driftThresholdMin: summary.driftThresholdMin,
+});
+
+// YYYY-MM-DD of the evening a moment belongs to: before noon it is still
+// the night that started the day before
+export function eveningOf(at: Date, zone: ZoneRef = deviceZone(at)): string {
+  const local = localMinutes(at, zone);
+  const day = localDayStart(dayOf(local));
+  return dayOf(local - day < EVENING_CUTOFF_MIN ? day - MINUTES_PER_DAY : day);
+}
+
+// Nudges for the next `days` evenings, skipping any that are already past
+// (starting with last evening's when its bedtime is after midnight). Empty
+// when nudges are off, there is no baseline yet, or the risk tier does not
+// send notifications.
+export function planNudges(
+  summary: SleepSummary,
+  opts: NudgeOptions = {},
+  now = new Date(),
+  zone: ZoneRef = deviceZone(now)
+): PlannedNudge[] {
+  const { enabled, leadMin, days, templates } = resolveNudgeOptions(opts);
+  const bedtimeClock = baselineBedtime(summary);
+  if (!enabled || !RISK_TIERS[summary.risk].notify || bedtimeClock == null) {
+    return [];
+  }
+
+  const today = localDayStart(dayOf(localMinutes(now, zone)));
+  // bedtime as minutes after the evening's midnight, e.g. 00:30 -> 24:30
+  const bedtime =
+    bedtimeClock < EVENING_CUTOFF_MIN
+      ? bedtimeClock + MINUTES_PER_DAY
+      : bedtimeClock;
+
+  const plan: PlannedNudge[] = [];
+  for (let i = -1; plan.length < days; i++) {
+    const eveningStart = today + i * MINUTES_PER_DAY;
+    const atMin = epochFromLocal(eveningStart + bedtime - leadMin, zone);
+    if (atMin * 60000 <= now.getTime()) continue;
+    const evening = dayOf(eveningStart);
+    const text = renderNudge(
+      summary,
+      evening,
+      { bedtimeClock, leadMin },
+      templates
+    );
+    plan.push({
+      id: `bedtime-${evening}`,
+      evening,
+      at: new Date(atMin * 60000),
+      bedtimeClock,
+      ...text,
+    });
+  }
+  return plan;
+}
+
+// Changes whenever the plan would schedule something different
+export const planKey = (plan: PlannedNudge[]) =>
+  plan
+    .map(
+      (n) =>
+        `${n.id}@${n.at.toISOString()}:${n.arm ?? ""}:${n.title}:${n.body}`
+    )
+    .join("|");
@@ -0,0 +1,341 @@
+// csvImport.ts
+// RFC 4180 CSV parsing plus per-row validation for night imports, shared by
+// every importer (see importers.ts). Nothing is written here: callers get a
+// report of accepted, suspicious and skipped rows and decide what to store.
+
+import type { MoodEntry, Night } from "./storage";
+import { NIGHT_SOURCES, NightSource } from "./nightSources";
+import { DIARY_COLUMNS, cleanDiary } from "./sleepDiary";
+import { dayOf, fileZone, localMinutes, offsetFromIso } from "./timezone";
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export type RowStatus = "accepted" | "suspicious" | "skipped";
+
+export type ImportRow = {
+  line: number; // 1-based line (or record number) in the file
+  fields: string[];
+  status: RowStatus;
+  reasons: string[]; // why a row was skipped or looks suspicious
+  night?: Night; // set for accepted and suspicious rows
+};
+
+export type ImportReport = {
+  format: string; // human-readable, e.g. "CSV (comma separated)"
+  rows: ImportRow[];
+  accepted: number;
+  suspicious: number;
+  skipped: number;
+  moods: MoodEntry[]; // mood check-ins, from NudgeKit JSON exports
+};
+
+// Durations outside this range are kept but flagged for review
+const MIN_PLAUSIBLE_MIN = 2 * 60;
+const MAX_PLAUSIBLE_MIN = 16 * 60;
+
+/* ---------------- parsing ---------------- */
+
+// Pick "," or ";" by counting unquoted occurrences in the first line.
+// Spreadsheets in comma-decimal locales export with semicolons.
+function detectDelimiter(text: string): "," | ";" {
+  let commas = 0;
+  let semis = 0;
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === "\n" || ch === "\r")) break;
+    else if (!quoted && ch === ",") commas++;
+    else if (!quoted && ch === ";") semis++;
+  }
+  return semis > commas ? ";" : ",";
+}
+
+// Records with their starting line. Handles quoted fields, "" escapes,
+// delimiters and line breaks inside quotes, CRLF/LF endings and a UTF-8 BOM.
+export function parseCsv(
+  input: string,
+  delimiter?: "," | ";"
+): { delimiter: "," | ";"; records: { line: number; fields: string[] }[] } {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const delim = delimiter ?? detectDelimiter(text);
+
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(field);
+    field = "";
+  };
+  const endRecord = () => {
+    endField();
+    // a blank line is not a record
+    if (!(fields.length === 1 && fields[0].trim() === "")) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    recordLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === "") {
+      field = "";
+      quoted = true;
+    } else if (ch === delim) {
+      endField();
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      line++;
+      endRecord();
+    } else {
+      field += ch;
+    }
+  }
+
+  if (quoted) {
+    throw new ImportError(
+      `Unclosed quoted field starting on line ${recordLine}.`
+    );
+  }
+  if (field !== "" || fields.length > 0) endRecord();
+
+  return { delimiter: delim, records };
+}
+
+/* ---------------- validation ---------------- */
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+// ISO 8601 date-time; a space instead of "T" is accepted (spreadsheet style)
+const DATETIME_RE =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+export function parseDateTime(value: string): Date | null {
+  if (!DATETIME_RE.test(value)) return null;
+  const d = new Date(value.replace(" ", "T"));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function isRealDate(value: string): boolean {
+  if (!DATE_RE.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+function validateRow(
+  line: number,
+  fields: string[],
+  columns: {
+    date: number;
+    start: number;
+    end: number;
+    source: number;
+    episode: number;
+    tz: number;
+    utc_offset_min: number;
+    diary: Record<string, number>; // diary column -> index, when present
+    width: number;
+  }
+): ImportRow {
+  const reasons: string[] = [];
+  const skip = (): ImportRow => ({ line, fields, status: "skipped", reasons });
+
+  if (fields.length < columns.width) {
+    reasons.push(
+      `Expected ${columns.width} columns but found ${fields.length}.`
+    );
+    return skip();
+  }
+
+  const date = fields[columns.date].trim();
+  const startText = fields[columns.start].trim();
+  const endText = fields[columns.end].trim();
+
+  if (!date) reasons.push("Missing date.");
+  else if (!isRealDate(date))
+    reasons.push(`Date "${date}" is not a valid YYYY-MM-DD date.`);
+
+  const start = startText ? parseDateTime(startText) : null;
+  const end = endText ? parseDateTime(endText) : null;
+  if (!startText) reasons.push("Missing sleep_start.");
+  else if (!start)
+    reasons.push(`sleep_start "${startText}" is not an ISO date-time.`);
+  if (!endText) reasons.push("Missing sleep_end.");
+  else if (!end)
+    reasons.push(`sleep_end "${endText}" is not an ISO date-time.`);
+
+  if (reasons.length > 0 || !start || !end) return skip();
+
+  // our own exports carry the original source; anything else is "csv"
+  const sourceText = (fields[columns.source] ?? "").trim();
+  const source = (NIGHT_SOURCES as readonly string[]).includes(sourceText)
+    ? (sourceText as NightSource)
+    : "csv";
+
+  const episodeText = (fields[columns.episode] ?? "").trim();
+  const episode =
+    episodeText === "main" || episodeText === "nap" ? episodeText : undefined;
+
+  const diary = cleanDiary(
+    Object.fromEntries(
+      Object.entries(columns.diary).map(([k, i]) => [k, fields[i]?.trim()])
+    )
+  );
+
+  // zone columns from our exports, else the offset on the end time
+  const zone = fileZone(
+    {
+      tz: fields[columns.tz]?.trim(),
+      utc_offset_min: fields[columns.utc_offset_min]?.trim(),
+    },
+    end,
+    offsetFromIso(endText)
+  );
+
+  return reviewNight(
+    line,
+    fields,
+    {
+      date,
+      sleep_start: start.toISOString(),
+      sleep_end: end.toISOString(),
+      source,
+      ...zone,
+      ...(diary ? { diary } : {}),
+      ...(episode ? { episode } : {}),
+    },
+    [start, end].map((d) => dayOf(localMinutes(d, zone)))
+  );
+}
+
+// Checks shared by every importer once a record has parseable times: the end
+// must follow the start, and odd durations or a date that matches neither
+// end of the night (`localDays`, when known) are flagged as suspicious.
+export function reviewNight(
+  line: number,
+  fields: string[],
+  night: Night,
+  localDays?: string[]
+): ImportRow {
+  const reasons: string[] = [];
+  const durationMin = Math.round(
+    (new Date(night.sleep_end).getTime() -
+      new Date(night.sleep_start).getTime()) /
+      60000
+  );
+  if (!(durationMin > 0)) {
+    reasons.push("sleep_end is not after sleep_start.");
+    return { line, fields, status: "skipped", reasons };
+  }
+
+  if (durationMin < MIN_PLAUSIBLE_MIN) {
+    reasons.push(`Only ${durationMin} minutes of sleep.`);
+  } else if (durationMin > MAX_PLAUSIBLE_MIN) {
+    reasons.push(`${(durationMin / 60).toFixed(1)} hours of sleep.`);
+  }
+  if (localDays && !localDays.includes(night.date)) {
+    reasons.push(
+      `Date ${night.date} matches neither sleep_start nor sleep_end.`
+    );
+  }
+
+  return {
+    line,
+    fields,
+    status: reasons.length > 0 ? "suspicious" : "accepted",
+    reasons,
+    night,
+  };
+}
+
+export function summarizeRows(
+  format: string,
+  rows: ImportRow[],
+  moods: MoodEntry[] = []
+): ImportReport {
+  return {
+    format,
+    rows,
+    accepted: rows.filter((r) => r.status === "accepted").length,
+    suspicious: rows.filter((r) => r.status === "suspicious").length,
+    skipped: rows.filter((r) => r.status === "skipped").length,
+    moods,
+  };
+}
+
+// Parse and validate a night CSV with columns date, sleep_start, sleep_end
+// (any order), plus optional source, episode, time zone and diary columns;
+// others are ignored. Throws ImportError only for problems with the file as a whole;
+// row problems are reported per row.
+export function buildCsvImportReport(text: string): ImportReport {
+  const { delimiter, records } = parseCsv(text);
+  if (records.length <= 1) {
+    throw new ImportError("CSV file has no data rows.");
+  }
+
+  const header = records[0].fields.map((h) => h.trim().toLowerCase());
+  const columns = {
+    date: header.indexOf("date"),
+    start: header.indexOf("sleep_start"),
+    end: header.indexOf("sleep_end"),
+    source: header.indexOf("source"),
+    episode: header.indexOf("episode"),
+    tz: header.indexOf("tz"),
+    utc_offset_min: header.indexOf("utc_offset_min"),
+    diary: Object.fromEntries(
+      DIARY_COLUMNS.map((c) => [c, header.indexOf(c)]).filter(
+        ([, i]) => i !== -1
+      )
+    ),
+    width: 0,
+  };
+  if (columns.date === -1 || columns.start === -1 || columns.end === -1) {
+    throw new ImportError(
+      "CSV must have columns: date,sleep_start,sleep_end (any order)."
+    );
+  }
+  columns.width = Math.max(columns.date, columns.start, columns.end) + 1;
+
+  const rows = records
+    .slice(1)
+    .map((r) => validateRow(r.line, r.fields, columns));
+
+  return summarizeRows(
+    `CSV (${delimiter === ";" ? "semicolon" : "comma"} separated)`,
+    rows
+  );
+}
+
+// Nights from a report; suspicious rows are included unless excluded
+export function nightsFromReport(
+  report: ImportReport,
+  includeSuspicious = true
+): Night[] {
+  return report.rows
+    .filter(
+      (r) =>
+        r.status === "accepted" ||
+        (includeSuspicious && r.status === "suspicious")
+    )
+    .map((r) => r.night!);
+}
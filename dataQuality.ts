@@ -0,0 +1,188 @@
+// dataQuality.ts
+// Checks stored nights for data that should not be trusted: unreadable or
+// backwards times, implausible durations, overlapping episodes, midsleep
+// outliers and multi-day gaps in logging. Each problem is flagged with a
+// plain-language reason; summarize() can leave flagged nights out of the
+// baseline (see SummaryOptions.excludeFlagged).
+
+import type { DerivedNight } from "./storage";
+import {
+  MINUTES_PER_DAY,
+  circularMeanMinuteOfDay,
+  clockDiff,
+  fmtHM,
+  fmtMinutesAsHours,
+  nightKey,
+} from "./sleepAnalytics";
+import { localDayStart } from "./timezone";
+
+export type QualityIssue =
+  | "invalid_times" // start or end cannot be read
+  | "zero_duration" // ends at or before it starts
+  | "too_long"
+  | "too_short" // main sleep only; naps may be short
+  | "overlap"
+  | "outlier" // midsleep far from the usual time
+  | "gap"; // several days with nothing logged before this night
+
+export type QualityFlag = { issue: QualityIssue; reason: string };
+
+// Days with no main sleep logged, between two nights that have one
+export type LoggingGap = {
+  after: string; // YYYY-MM-DD, last wake day before the gap
+  before: string; // YYYY-MM-DD, first wake day after it
+  missingDays: number;
+};
+
+export type QualityReport = {
+  flags: Map<string, QualityFlag[]>; // by nightKey; clean nights are absent
+  gaps: LoggingGap[]; // most recent first
+  excludable: Set<string>; // keys of nights with more than a gap flagged
+};
+
+export const ISSUE_LABELS: Record<QualityIssue, string> = {
+  invalid_times: "Bad times",
+  zero_duration: "Zero length",
+  too_long: "Too long",
+  too_short: "Too short",
+  overlap: "Overlap",
+  outlier: "Outlier",
+  gap: "After a gap",
+};
+
+// A gap says nothing about the night itself, so it never excludes one
+export const EXCLUDABLE_ISSUES: readonly QualityIssue[] = [
+  "invalid_times",
+  "zero_duration",
+  "too_long",
+  "too_short",
+  "overlap",
+  "outlier",
+];
+
+// Same bounds as the importer's "suspicious" check (csvImport.ts)
+export const MAX_EPISODE_MIN = 16 * 60;
+export const MIN_MAIN_SLEEP_MIN = 2 * 60;
+// Far enough that a genuinely late night is never an outlier; an AM/PM or
+// date typo usually lands about 12h away
+export const OUTLIER_MIDSLEEP_MIN = 8 * 60;
+export const OUTLIER_MIN_NIGHTS = 4; // main sleeps needed to judge "usual"
+export const GAP_MIN_DAYS = 2; // missing days that count as a gap
+
+/* ---------------- checks ---------------- */
+
+function ownIssues(n: DerivedNight): QualityFlag[] {
+  const start = Date.parse(n.sleep_start);
+  const end = Date.parse(n.sleep_end);
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return [
+      { issue: "invalid_times", reason: "Start or end time cannot be read." },
+    ];
+  }
+  if (end <= start) {
+    return [
+      {
+        issue: "zero_duration",
+        reason:
+          end < start
+            ? "Wake time is before the bedtime."
+            : "Bedtime and wake time are the same.",
+      },
+    ];
+  }
+  if (n.duration_min > MAX_EPISODE_MIN) {
+    return [
+      {
+        issue: "too_long",
+        reason: `Lasts ${fmtMinutesAsHours(n.duration_min)}; over ${
+          MAX_EPISODE_MIN / 60
+        } h is usually a missed wake time.`,
+      },
+    ];
+  }
+  if (n.kind === "main" && n.duration_min < MIN_MAIN_SLEEP_MIN) {
+    return [
+      {
+        issue: "too_short",
+        reason: `Main sleep of ${fmtMinutesAsHours(
+          n.duration_min
+        )}; under ${MIN_MAIN_SLEEP_MIN / 60} h is usually a typo.`,
+      },
+    ];
+  }
+  return [];
+}
+
+// `derived` as from deriveAll (most recent first)
+export function checkQuality(derived: DerivedNight[]): QualityReport {
+  const flags = new Map<string, QualityFlag[]>();
+  const add = (n: DerivedNight, flag: QualityFlag) =>
+    flags.set(nightKey(n), [...(flags.get(nightKey(n)) ?? []), flag]);
+
+  for (const n of derived) ownIssues(n).forEach((f) => add(n, f));
+  const usable = derived.filter((n) => !flags.has(nightKey(n)));
+
+  // overlaps: sweep in start order, comparing with the latest-ending episode
+  const byStart = [...usable].sort(
+    (a, b) => Date.parse(a.sleep_start) - Date.parse(b.sleep_start)
+  );
+  let latest: DerivedNight | null = null;
+  for (const n of byStart) {
+    if (latest && Date.parse(n.sleep_start) < Date.parse(latest.sleep_end)) {
+      add(n, {
+        issue: "overlap",
+        reason: `Overlaps the episode that ended ${latest.wake_day}.`,
+      });
+      add(latest, {
+        issue: "overlap",
+        reason: `Overlaps the episode that ended ${n.wake_day}.`,
+      });
+    }
+    if (!latest || Date.parse(n.sleep_end) > Date.parse(latest.sleep_end)) {
+      latest = n;
+    }
+  }
+
+  // outliers: midsleep far from the usual time of the other main sleeps
+  const mains = usable.filter((n) => n.kind === "main");
+  if (mains.length >= OUTLIER_MIN_NIGHTS) {
+    const usual = circularMeanMinuteOfDay(mains.map((n) => n.midsleep_clock));
+    for (const n of usual == null ? [] : mains) {
+      const off = Math.abs(clockDiff(n.midsleep_clock, usual!));
+      if (off < OUTLIER_MIDSLEEP_MIN) continue;
+      add(n, {
+        issue: "outlier",
+        reason: `Midpoint ${fmtHM(n.midsleep_clock)} is ${fmtMinutesAsHours(
+          off
+        )} from the usual ${fmtHM(usual)}; check the date and times.`,
+      });
+    }
+  }
+
+  // gaps: days without a main sleep between two that have one; flagged
+  // nights still show that something was logged that day
+  const logged = derived.filter((n) => n.kind === "main" && n.wake_day);
+  const days = [...new Set(logged.map((n) => n.wake_day))].sort().reverse();
+  const gaps: LoggingGap[] = [];
+  for (let i = 0; i + 1 < days.length; i++) {
+    const missingDays =
+      (localDayStart(days[i]) - localDayStart(days[i + 1])) / MINUTES_PER_DAY -
+      1;
+    if (missingDays < GAP_MIN_DAYS) continue;
+    gaps.push({ after: days[i + 1], before: days[i], missingDays });
+    const first = logged.find((n) => n.wake_day === days[i]);
+    if (first) {
+      add(first, {
+        issue: "gap",
+        reason: `Nothing logged for the ${missingDays} days before this night.`,
+      });
+    }
+  }
+
+  const excludable = new Set(
+    [...flags.entries()]
+      .filter(([, fs]) => fs.some((f) => EXCLUDABLE_ISSUES.includes(f.issue)))
+      .map(([key]) => key)
+  );
+  return { flags, gaps, excludable };
+}
@@ -0,0 +1,179 @@
+// documentAdapter.ts
+// Memory and JSON-document adapters. The document adapter keeps the versioned
+// envelope (see schema.ts) in memory after the first load and saves it whole
+// through a backend (a file on native, localStorage on web; see
+// storageAdapters.ts). Nothing here imports Expo, so it also runs in Node.
+
+import { SchemaError, StoredDoc, emptyDoc, migrate, newId } from "./schema";
+import type {
+  DateRange,
+  Night,
+  StorageAdapter,
+  StorageKind,
+} from "./storage";
+
+// A backend only knows how to load and save one serialized document
+export type DocumentBackend = {
+  kind: StorageKind;
+  load: () => Promise<string | null>;
+  save: (text: string) => Promise<void>;
+  remove: () => Promise<void>;
+};
+
+/* ---------------- shared helpers ---------------- */
+
+export function inRange(date: string, range?: DateRange): boolean {
+  if (!range) return true;
+  if (range.from && date < range.from) return false;
+  if (range.to && date > range.to) return false;
+  return true;
+}
+
+const byStart = (a: Night, b: Night) =>
+  a.sleep_start < b.sleep_start ? -1 : a.sleep_start > b.sleep_start ? 1 : 0;
+
+const newestFirst = (a: { at: string }, b: { at: string }) =>
+  a.at < b.at ? 1 : a.at > b.at ? -1 : 0;
+
+/* ---------------- adapters ---------------- */
+
+// With no backend this is the plain memory adapter.
+export function documentAdapter(
+  backend: DocumentBackend | null
+): StorageAdapter {
+  let doc: StoredDoc = emptyDoc();
+
+  const persist = async () => {
+    doc = { ...doc, updatedAt: new Date().toISOString() };
+    if (backend) await backend.save(JSON.stringify(doc));
+  };
+
+  return {
+    kind: backend ? backend.kind : "memory",
+
+    async init() {
+      if (!backend) return;
+      const text = await backend.load();
+      let raw: unknown = null;
+      if (text) {
+        try {
+          raw = JSON.parse(text);
+        } catch {
+          // refuse to start rather than overwrite data we cannot read
+          throw new SchemaError("Stored data is not valid JSON.");
+        }
+      }
+      const { doc: migrated, applied } = migrate(raw);
+      doc = { ...migrated, nights: [...migrated.nights].sort(byStart) };
+      if (applied.length > 0) await backend.save(JSON.stringify(doc));
+    },
+
+    async queryNights(range) {
+      return doc.nights.filter((n) => inRange(n.date, range));
+    },
+
+    async upsertNight(night) {
+      const stored = night.id ? night : { ...night, id: newId() };
+      const others = doc.nights.filter((n) => n.id !== stored.id);
+      doc = { ...doc, nights: [...others, stored].sort(byStart) };
+      await persist();
+      return stored;
+    },
+
+    async deleteNight(id) {
+      doc = { ...doc, nights: doc.nights.filter((n) => n.id !== id) };
+      await persist();
+    },
+
+    async countNights() {
+      return doc.nights.length;
+    },
+
+    async replaceNights(next) {
+      const nights = next
+        .map((n) => (n.id ? n : { ...n, id: newId() }))
+        .sort(byStart);
+      doc = { ...doc, nights };
+      await persist();
+    },
+
+    async readMoods() {
+      return [...doc.moods].sort(newestFirst);
+    },
+
+    async appendMood(entry) {
+      doc = { ...doc, moods: [...doc.moods, entry] };
+      await persist();
+    },
+
+    async deleteMood(id) {
+      doc = { ...doc, moods: doc.moods.filter((m) => m.id !== id) };
+      await persist();
+    },
+
+    async clearMoods() {
+      doc = { ...doc, moods: [] };
+      await persist();
+    },
+
+    async readDecisions() {
+      return [...doc.decisions].sort(newestFirst);
+    },
+
+    async writeDecisions(decisions) {
+      doc = { ...doc, decisions };
+      await persist();
+    },
+
+    async readInbox() {
+      return [...doc.inbox].sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+    },
+
+    async writeInbox(inbox) {
+      doc = { ...doc, inbox };
+      await persist();
+    },
+
+    async readSettings() {
+      return doc.settings;
+    },
+
+    async writeSettings(settings) {
+      doc = { ...doc, settings };
+      await persist();
+    },
+
+    // Drops everything but settings and createdAt
+    async clear() {
+      doc = { ...emptyDoc(doc.createdAt), settings: doc.settings };
+      await persist();
+    },
+
+    async readDoc() {
+      return doc;
+    },
+
+    async writeDoc(next) {
+      doc = { ...next, nights: [...next.nights].sort(byStart) };
+      await persist();
+    },
+  };
+}
+
+/* ---------------- legacy documents ---------------- */
+
+// Moves a document saved through `backend` (the JSON file store used before
+// SQLite existed) into `target` while it holds no nights yet. Everything is
+// copied, moods, settings and logs included, and the old document is removed
+// only once the copy is written.
+export async function importDocument(
+  target: StorageAdapter,
+  backend: DocumentBackend | null
+) {
+  if (!backend || (await target.countNights()) > 0) return;
+  if ((await backend.load()) == null) return;
+  const legacy = documentAdapter(backend);
+  await legacy.init();
+  await target.writeDoc(await legacy.readDoc());
+  await backend.remove();
+}
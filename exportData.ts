@@ -0,0 +1,237 @@
+// exportData.ts
+// Builds export files from stored data. Nights are written with their derived
+// duration, midsleep and diary totals next to the raw fields; the nights CSV
+// and the JSON file can both be imported again (see importers.ts). The trial
+// decision log has its own export, one row per decision with its outcome.
+
+import type { DerivedNight, MoodEntry, Night } from "./storage";
+import { deriveAll } from "./sleepAnalytics";
+import { DIARY_COLUMNS } from "./sleepDiary";
+import { TrialDecision, TrialRecord, withOutcomes } from "./microTrial";
+
+// Bumped when the JSON layout changes in a way readers must know about
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ExportedNight = Omit<DerivedNight, "midsleep_min_epoch"> & {
+  midsleep: string; // ISO timestamp
+};
+
+export type ExportJson = {
+  app: "nudgekit";
+  exportVersion: number;
+  exportedAt: string;
+  nights: ExportedNight[];
+  moods: MoodEntry[];
+};
+
+export type ExportFile = {
+  name: string;
+  mimeType: string;
+  text: string;
+};
+
+const NIGHT_COLUMNS = [
+  "date",
+  "sleep_start",
+  "sleep_end",
+  "duration_min",
+  "midsleep",
+  "total_sleep_min",
+  "time_in_bed_min",
+  "sleep_efficiency",
+  "kind",
+  "wake_day",
+  "episode",
+  ...DIARY_COLUMNS,
+  "tz",
+  "utc_offset_min",
+  "source",
+  "id",
+] as const;
+
+const MOOD_COLUMNS = ["at", "mood", "id"] as const;
+
+// Clock times are minutes after local midnight; shifts are signed, + = later
+const TRIAL_COLUMNS = [
+  "id",
+  "point",
+  "at",
+  "evening",
+  "seed",
+  "draw",
+  "p_nudge",
+  "p_alternate",
+  "p_none",
+  "arm",
+  "template_id",
+  "title",
+  "body",
+  "risk",
+  "direction",
+  "drifted_nights",
+  "recent_lateness_min",
+  "baseline_mid_min",
+  "bedtime_min",
+  "coverage",
+  "min_coverage",
+  "window_days",
+  "drift_threshold_min",
+  "outcome_wake_day",
+  "outcome_midsleep_min",
+  "outcome_shift_min",
+  "outcome_change_min",
+] as const;
+
+export type TrialExportJson = {
+  app: "nudgekit";
+  exportVersion: number;
+  exportedAt: string;
+  decisions: TrialRecord[];
+};
+
+/* ---------------- builders ---------------- */
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+function csvField(value: unknown): string {
+  const s = value == null ? "" : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(columns: readonly string[], rows: Record<string, unknown>[]) {
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((c) => csvField(row[c])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function exportedNights(nights: Night[]): ExportedNight[] {
+  // deriveAll, so a second sleep on a wake day exports as the nap the app
+  // shows it as
+  return deriveAll(nights)
+    .sort((a, b) => a.sleep_start.localeCompare(b.sleep_start))
+    .map(({ midsleep_min_epoch, ...n }) => ({
+      ...n,
+      midsleep: new Date(midsleep_min_epoch * 60000).toISOString(),
+    }));
+}
+
+// Diary answers become their own columns in the CSV
+export function nightsCsv(nights: Night[]): string {
+  return toCsv(
+    NIGHT_COLUMNS,
+    exportedNights(nights).map(({ diary, ...n }) => ({ ...n, ...diary }))
+  );
+}
+
+export function moodsCsv(moods: MoodEntry[]): string {
+  const oldestFirst = [...moods].sort((a, b) => a.at.localeCompare(b.at));
+  return toCsv(MOOD_COLUMNS, oldestFirst);
+}
+
+export function exportJson(
+  nights: Night[],
+  moods: MoodEntry[],
+  now = new Date()
+): string {
+  const out: ExportJson = {
+    app: "nudgekit",
+    exportVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: now.toISOString(),
+    nights: exportedNights(nights),
+    moods: [...moods].sort((a, b) => a.at.localeCompare(b.at)),
+  };
+  return JSON.stringify(out, null, 2);
+}
+
+const round = (m: number | null | undefined) =>
+  m == null ? null : Math.round(m);
+
+const oldestFirst = (log: TrialDecision[]) =>
+  [...log].sort((a, b) => a.at.localeCompare(b.at));
+
+export function trialCsv(log: TrialDecision[], nights: Night[]): string {
+  const rows = withOutcomes(oldestFirst(log), deriveAll(nights)).map((d) => ({
+    id: d.id,
+    point: d.point,
+    at: d.at,
+    evening: d.evening,
+    seed: d.seed,
+    draw: d.draw,
+    p_nudge: d.pNudge,
+    p_alternate: d.pAlternate,
+    p_none: Math.round((1 - d.pNudge - d.pAlternate) * 100) / 100,
+    arm: d.arm,
+    template_id: d.templateId,
+    title: d.title,
+    body: d.body,
+    risk: d.context.risk,
+    direction: d.context.direction,
+    drifted_nights: d.context.driftedNights,
+    recent_lateness_min: Math.round(d.context.recentLateness),
+    baseline_mid_min: round(d.context.baselineMid),
+    bedtime_min: round(d.context.bedtimeClock),
+    coverage: d.context.coverage,
+    min_coverage: d.context.minCoverage,
+    window_days: d.context.windowDays,
+    drift_threshold_min: d.context.driftThresholdMin,
+    outcome_wake_day: d.outcome?.wakeDay,
+    outcome_midsleep_min: round(d.outcome?.midsleepClock),
+    outcome_shift_min: d.outcome?.shiftMin,
+    outcome_change_min: d.outcome?.changeMin,
+  }));
+  return toCsv(TRIAL_COLUMNS, rows);
+}
+
+// The decision log as CSV for analysis, plus JSON with every field
+export function buildTrialExportFiles(
+  log: TrialDecision[],
+  nights: Night[],
+  now = new Date()
+): ExportFile[] {
+  const stamp = now.toISOString().slice(0, 10);
+  const out: TrialExportJson = {
+    app: "nudgekit",
+    exportVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: now.toISOString(),
+    decisions: withOutcomes(oldestFirst(log), deriveAll(nights)),
+  };
+  return [
+    {
+      name: `nudgekit-trial-${stamp}.csv`,
+      mimeType: "text/csv",
+      text: trialCsv(log, nights),
+    },
+    {
+      name: `nudgekit-trial-${stamp}.json`,
+      mimeType: "application/json",
+      text: JSON.stringify(out, null, 2),
+    },
+  ];
+}
+
+// Everything one export writes: nights and moods as CSV, plus one JSON file
+export function buildExportFiles(
+  nights: Night[],
+  moods: MoodEntry[],
+  now = new Date()
+): ExportFile[] {
+  const stamp = now.toISOString().slice(0, 10);
+  return [
+    {
+      name: `nudgekit-nights-${stamp}.csv`,
+      mimeType: "text/csv",
+      text: nightsCsv(nights),
+    },
+    {
+      name: `nudgekit-moods-${stamp}.csv`,
+      mimeType: "text/csv",
+      text: moodsCsv(moods),
+    },
+    {
+      name: `nudgekit-export-${stamp}.json`,
+      mimeType: "application/json",
+      text: exportJson(nights, moods, now),
+    },
+  ];
+}
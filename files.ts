@@ -0,0 +1,47 @@
+// files.ts
+// Reading files picked with expo-document-picker and writing exports. On web
+// a picked uri is a blob/data URL, so it is fetched, and exports are offered
+// as downloads; on native both go through expo-file-system.
+
+import { Platform } from "react-native";
+import { Directory, File, Paths } from "expo-file-system";
+
+const EXPORT_DIR = "exports";
+
+export async function readPickedText(uri: string): Promise<string> {
+  if (Platform.OS === "web") {
+    const res = await fetch(uri);
+    return res.text();
+  }
+  return new File(uri).text();
+}
+
+// Write text files for the user to take away. Returns where they went: the
+// file uris on native, the file names (downloads) on web.
+export async function saveTextFiles(
+  files: { name: string; mimeType: string; text: string }[]
+): Promise<string[]> {
+  if (Platform.OS === "web") {
+    for (const f of files) {
+      const url = URL.createObjectURL(new Blob([f.text], { type: f.mimeType }));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = f.name;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      // give the browser a moment to start the download before revoking
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+    return files.map((f) => f.name);
+  }
+
+  const dir = new Directory(Paths.document, EXPORT_DIR);
+  dir.create({ intermediates: true, idempotent: true });
+  return files.map((f) => {
+    const file = new File(dir, f.name);
+    file.create({ overwrite: true });
+    file.write(f.text);
+    return file.uri;
+  });
+}
@@ -0,0 +1,151 @@
+// importMerge.ts
+// Merging imported nights into the stored ones. Incoming nights that match a
+// stored night are dropped, ones that clash with a stored night become
+// conflicts the user resolves, and the rest are added. A night that clashes
+// with an earlier one in the same import is left out, so the file can never
+// add two nights for one date or overlapping times. Mood check-ins have no
+// conflicts: ones not stored yet are added.
+
+import type { MoodEntry, Night } from "./storage";
+import { derive } from "./sleepAnalytics";
+
+// Start and end within this many minutes count as the same night
+const SAME_NIGHT_TOLERANCE_MIN = 5;
+
+export type ConflictKind = "duplicate" | "overlap";
+export type ConflictChoice = "keep_existing" | "take_imported" | "keep_both";
+
+export type ImportConflict = {
+  key: string;
+  kind: ConflictKind; // duplicate = two main sleeps on one date; overlap = times
+  existing: Night;
+  incoming: Night;
+  choice: ConflictChoice;
+};
+
+export type MergePlan = {
+  added: Night[]; // no match in storage
+  identical: Night[]; // already stored, ignored
+  clashing: Night[]; // clash with an earlier night in the import, left out
+  conflicts: ImportConflict[];
+  untouched: number; // stored nights no incoming night touches
+};
+
+// What to do to storage once conflicts are resolved
+export type MergeOps = {
+  upserts: Night[];
+  deletes: string[]; // ids of stored nights replaced by imported ones
+};
+
+const ms = (iso: string) => new Date(iso).getTime();
+
+const sameTimes = (a: Night, b: Night) =>
+  Math.abs(ms(a.sleep_start) - ms(b.sleep_start)) <=
+    SAME_NIGHT_TOLERANCE_MIN * 60000 &&
+  Math.abs(ms(a.sleep_end) - ms(b.sleep_end)) <=
+    SAME_NIGHT_TOLERANCE_MIN * 60000;
+
+const overlaps = (a: Night, b: Night) =>
+  ms(a.sleep_start) < ms(b.sleep_end) && ms(b.sleep_start) < ms(a.sleep_end);
+
+// Two main sleeps on one date clash; a nap next to a main sleep does not
+const sameDate = (a: Night, b: Night) =>
+  a.date === b.date && derive(a).kind === "main" && derive(b).kind === "main";
+
+export function planMerge(existing: Night[], incoming: Night[]): MergePlan {
+  const added: Night[] = [];
+  const identical: Night[] = [];
+  const clashing: Night[] = [];
+  const conflicts: ImportConflict[] = [];
+  const touched = new Set<Night>();
+  // incoming nights that will be stored or may be, in file order
+  const taken = () => [...added, ...conflicts.map((c) => c.incoming)];
+
+  for (const night of incoming) {
+    // cumulative exports repeat rows, and a file can repeat itself
+    if (taken().some((a) => sameTimes(a, night))) {
+      identical.push(night);
+      continue;
+    }
+
+    const same = existing.find((e) => sameTimes(e, night));
+    if (same) {
+      touched.add(same);
+      identical.push(night);
+      continue;
+    }
+
+    if (taken().some((a) => sameDate(a, night) || overlaps(a, night))) {
+      clashing.push(night);
+      continue;
+    }
+
+    const clash =
+      existing.find((e) => sameDate(e, night)) ??
+      existing.find((e) => overlaps(e, night));
+    if (clash) {
+      touched.add(clash);
+      conflicts.push({
+        key: `${clash.id ?? clash.sleep_start}|${night.sleep_start}`,
+        kind: sameDate(clash, night) ? "duplicate" : "overlap",
+        existing: clash,
+        incoming: night,
+        choice: "keep_existing",
+      });
+      continue;
+    }
+
+    added.push(night);
+  }
+
+  return {
+    added,
+    identical,
+    clashing,
+    conflicts,
+    untouched: existing.filter((e) => !touched.has(e)).length,
+  };
+}
+
+export function resolveConflict(
+  plan: MergePlan,
+  key: string,
+  choice: ConflictChoice
+): MergePlan {
+  return {
+    ...plan,
+    conflicts: plan.conflicts.map((c) => (c.key === key ? { ...c, choice } : c)),
+  };
+}
+
+export function mergeOps(plan: MergePlan): MergeOps {
+  const upserts = [...plan.added];
+  const deletes: string[] = [];
+  for (const c of plan.conflicts) {
+    if (c.choice === "keep_existing") continue;
+    // one stored night may clash with several imported ones; replace it once
+    if (c.choice === "take_imported" && c.existing.id) {
+      if (!deletes.includes(c.existing.id)) deletes.push(c.existing.id);
+    }
+    upserts.push(c.incoming);
+  }
+  return { upserts, deletes };
+}
+
+/* ---------------- moods ---------------- */
+
+const sameMood = (a: MoodEntry, b: MoodEntry) =>
+  a.id === b.id || (a.at === b.at && a.mood === b.mood);
+
+// Imported check-ins that are neither stored nor repeated in the import
+export function newMoods(
+  existing: MoodEntry[],
+  incoming: MoodEntry[]
+): MoodEntry[] {
+  const added: MoodEntry[] = [];
+  for (const m of incoming) {
+    if ([...existing, ...added].some((e) => sameMood(e, m))) continue;
+    added.push(m);
+  }
+  return added;
+}
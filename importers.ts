@@ -0,0 +1,442 @@
+// importers.ts
+// Importers for tracker and health-app exports. Each one maps the export onto
+// Night records and runs them through the same row review as the CSV importer,
+// so every format ends in the same import summary and merge flow.
+
+import type { MoodEntry, Night } from "./storage";
+import { NIGHT_SOURCES, NightSource } from "./nightSources";
+import {
+  ImportError,
+  ImportReport,
+  ImportRow,
+  buildCsvImportReport,
+  parseCsv,
+  parseDateTime,
+  reviewNight,
+  summarizeRows,
+} from "./csvImport";
+import { BACKUP_FORMAT } from "./backup";
+import { cleanDiary } from "./sleepDiary";
+import {
+  ZoneRef,
+  dayOf,
+  fileZone,
+  importZone,
+  localMinutes,
+  offsetFromIso,
+} from "./timezone";
+
+export type ImportFormat =
+  | "nudgekit_csv"
+  | "nudgekit_json"
+  | "apple_health"
+  | "fitbit"
+  | "oura"
+  | "google_fit";
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  nudgekit_csv: "NudgeKit CSV",
+  nudgekit_json: "NudgeKit JSON export",
+  apple_health: "Apple Health export.xml",
+  fitbit: "Fitbit sleep JSON",
+  oura: "Oura sleep CSV",
+  google_fit: "Google Fit sleep sessions",
+};
+
+// Apple Health splits a night into stage records; gaps up to this long are
+// treated as brief awakenings within one episode.
+const EPISODE_GAP_MIN = 60;
+
+/* ---------------- shared helpers ---------------- */
+
+const validDate = (d: Date) => !Number.isNaN(d.getTime());
+
+// `zone` defaults to the device's; `date` to the wake day on that zone's clock
+function nightRow(
+  line: number,
+  fields: string[],
+  start: Date,
+  end: Date,
+  source: Night["source"],
+  date?: string,
+  extra: Pick<Night, "diary" | "episode"> & { zone?: ZoneRef } = {}
+): ImportRow {
+  if (!validDate(start) || !validDate(end)) {
+    return {
+      line,
+      fields,
+      status: "skipped",
+      reasons: ["Start or end time could not be read."],
+    };
+  }
+  const { zone = importZone(end, null), ...rest } = extra;
+  return reviewNight(line, fields, {
+    date: date ?? dayOf(localMinutes(end, zone)),
+    sleep_start: start.toISOString(),
+    sleep_end: end.toISOString(),
+    source,
+    ...zone,
+    ...rest,
+  });
+}
+
+// A parsed JSON object; anything else is read as an empty one
+type Fields = Record<string, unknown>;
+
+const isFields = (v: unknown): v is Fields =>
+  v != null && typeof v === "object" && !Array.isArray(v);
+
+const fieldsOf = (v: unknown): Fields => (isFields(v) ? v : {});
+
+// `json[key]` when it is a list
+const listAt = (json: unknown, key: string): unknown[] | null => {
+  const value = fieldsOf(json)[key];
+  return Array.isArray(value) ? value : null;
+};
+
+// Text for the row fields shown in the import summary
+const shown = (v: unknown) => (v == null ? "" : String(v));
+
+// Times come as ISO text or epoch milliseconds
+const dateOf = (v: unknown) =>
+  typeof v === "string" || typeof v === "number"
+    ? new Date(v)
+    : new Date(NaN);
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ImportError("File is not valid JSON.");
+  }
+}
+
+/* ---------------- detection ---------------- */
+
+export function detectFormat(text: string): ImportFormat {
+  const head = text.replace(/^\uFEFF/, "").trimStart();
+
+  if (head.startsWith("<")) {
+    if (text.includes("HKCategoryTypeIdentifierSleepAnalysis")) {
+      return "apple_health";
+    }
+    throw new ImportError(
+      "XML file has no Apple Health sleep analysis records."
+    );
+  }
+
+  if (head.startsWith("{") || head.startsWith("[")) {
+    const json = parseJson(head);
+    const top = fieldsOf(json);
+    if (top.app === "nudgekit") return "nudgekit_json";
+    if (top.format === BACKUP_FORMAT) {
+      throw new ImportError(
+        "This is a NudgeKit backup. Use \"Restore backup\" to load it."
+      );
+    }
+    const items = Array.isArray(json)
+      ? json
+      : listAt(json, "sleep") ?? listAt(json, "session") ?? [json];
+    const first = fieldsOf(items[0]);
+    if ("dateOfSleep" in first || "logId" in first) return "fitbit";
+    if (
+      "fitnessActivity" in first ||
+      "startTimeMillis" in first ||
+      "activityType" in first
+    ) {
+      return "google_fit";
+    }
+    throw new ImportError(
+      "JSON file is not a NudgeKit export, Fitbit sleep or Google Fit sessions."
+    );
+  }
+
+  const firstLine = head.split(/\r?\n/, 1)[0].toLowerCase();
+  if (/bedtime[ _]start/.test(firstLine)) return "oura";
+  return "nudgekit_csv";
+}
+
+/* ---------------- NudgeKit JSON ---------------- */
+
+// A mood check-in read back from an export; its id is kept so the merge can
+// tell it is already stored (see newMoods in importMerge.ts)
+function moodEntry(raw: unknown): MoodEntry[] {
+  const m = fieldsOf(raw);
+  if (typeof m.mood !== "string" || m.mood === "") return [];
+  if (!validDate(dateOf(m.at))) return [];
+  const at = dateOf(m.at).toISOString();
+  const id = typeof m.id === "string" && m.id ? m.id : `${at}-${m.mood}`;
+  return [{ id, mood: m.mood as MoodEntry["mood"], at }];
+}
+
+// Files written by exportData.ts. Night ids are dropped so a re-import never
+// overwrites a stored night; derived fields are recomputed on use.
+export function parseNudgeKitJson(text: string): ImportReport {
+  const json = parseJson(text);
+  const nights = listAt(json, "nights") ?? [];
+  const moods = (listAt(json, "moods") ?? []).flatMap(moodEntry);
+
+  const rows = nights.map(fieldsOf).map((n, i) => {
+    const source = (NIGHT_SOURCES as readonly unknown[]).includes(n.source)
+      ? (n.source as NightSource)
+      : undefined;
+    const end = dateOf(n.sleep_end);
+    return nightRow(
+      i + 1,
+      [shown(n.date), shown(n.sleep_start), shown(n.sleep_end)],
+      dateOf(n.sleep_start),
+      end,
+      source,
+      typeof n.date === "string" && n.date ? n.date : undefined,
+      {
+        diary: cleanDiary(n.diary),
+        episode:
+          n.episode === "main" || n.episode === "nap" ? n.episode : undefined,
+        zone: validDate(end)
+          ? fileZone(n, end, offsetFromIso(shown(n.sleep_end)))
+          : undefined,
+      }
+    );
+  });
+  return summarizeRows(IMPORT_FORMAT_LABELS.nudgekit_json, rows, moods);
+}
+
+/* ---------------- Apple Health ---------------- */
+
+// "2024-01-01 23:10:00 -0500" -> Date
+function appleDate(value: string): Date {
+  const m = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(
+    value.trim()
+  );
+  return new Date(m ? `${m[1]}T${m[2]}${m[3]}:${m[4]}` : NaN);
+}
+
+function attrs(tag: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const m of tag.matchAll(/(\w+)="([^"]*)"/g)) out[m[1]] = m[2];
+  return out;
+}
+
+export function parseAppleHealth(text: string): ImportReport {
+  // offset: the one written on the end time, e.g. "-0500"
+  type Interval = {
+    start: Date;
+    end: Date;
+    offset: number | null;
+    sources: Set<string>;
+  };
+  const asleep: Interval[] = [];
+  const inBed: Interval[] = [];
+
+  const recordRe =
+    /<Record\b[^>]*type="HKCategoryTypeIdentifierSleepAnalysis"[^>]*>/g;
+  for (const match of text.matchAll(recordRe)) {
+    const a = attrs(match[0]);
+    const interval = {
+      start: appleDate(a.startDate ?? ""),
+      end: appleDate(a.endDate ?? ""),
+      offset: offsetFromIso(a.endDate ?? ""),
+      sources: new Set([a.sourceName ?? "Unknown source"]),
+    };
+    if (!validDate(interval.start) || !validDate(interval.end)) continue;
+    const value = a.value ?? "";
+    if (value.includes("Asleep")) asleep.push(interval);
+    else if (value.includes("InBed")) inBed.push(interval);
+  }
+
+  // Prefer asleep stages; fall back to in-bed records for older exports
+  const intervals = (asleep.length > 0 ? asleep : inBed).sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+  if (intervals.length === 0) {
+    throw new ImportError("No sleep analysis records found in export.xml.");
+  }
+
+  const episodes: Interval[] = [];
+  for (const iv of intervals) {
+    const last = episodes[episodes.length - 1];
+    if (
+      last &&
+      iv.start.getTime() - last.end.getTime() <= EPISODE_GAP_MIN * 60000
+    ) {
+      if (iv.end > last.end) {
+        last.end = iv.end;
+        last.offset = iv.offset;
+      }
+      iv.sources.forEach((s) => last.sources.add(s));
+    } else {
+      episodes.push({ ...iv, sources: new Set(iv.sources) });
+    }
+  }
+
+  const rows = episodes.map((ep, i) =>
+    nightRow(
+      i + 1,
+      [
+        ep.start.toISOString(),
+        ep.end.toISOString(),
+        [...ep.sources].join(" + "),
+      ],
+      ep.start,
+      ep.end,
+      "apple_health",
+      undefined,
+      { zone: importZone(ep.end, ep.offset) }
+    )
+  );
+  return summarizeRows(IMPORT_FORMAT_LABELS.apple_health, rows);
+}
+
+/* ---------------- Fitbit ---------------- */
+
+// Fitbit data export (sleep-YYYY-MM-DD.json, an array) or the Web API
+// response ({ sleep: [...] }). Times are local clock times without an offset
+// and are read on this device's clock.
+export function parseFitbit(text: string): ImportReport {
+  const json = parseJson(text);
+  const logs = Array.isArray(json) ? json : listAt(json, "sleep") ?? [];
+
+  const rows = logs.map(fieldsOf).map((log, i) => {
+    const fields = [
+      shown(log.dateOfSleep),
+      shown(log.startTime),
+      shown(log.endTime),
+    ];
+    return nightRow(
+      i + 1,
+      fields,
+      dateOf(log.startTime),
+      dateOf(log.endTime),
+      "fitbit",
+      typeof log.dateOfSleep === "string" && log.dateOfSleep
+        ? log.dateOfSleep
+        : undefined,
+      log.isMainSleep != null
+        ? { episode: log.isMainSleep ? "main" : "nap" }
+        : {}
+    );
+  });
+  return summarizeRows(IMPORT_FORMAT_LABELS.fitbit, rows);
+}
+
+/* ---------------- Oura ---------------- */
+
+// Oura sleep CSV: day (or date), bedtime_start, bedtime_end; the older trends
+// export spells them "Bedtime Start" / "Bedtime End".
+export function parseOura(text: string): ImportReport {
+  const { records } = parseCsv(text);
+  if (records.length <= 1) throw new ImportError("CSV file has no data rows.");
+
+  const header = records[0].fields.map((h) =>
+    h.trim().toLowerCase().replace(/\s+/g, "_")
+  );
+  const col = (...names: string[]) =>
+    names.map((n) => header.indexOf(n)).find((i) => i !== -1) ?? -1;
+  const iDay = col("day", "date");
+  const iStart = col("bedtime_start");
+  const iEnd = col("bedtime_end");
+  const iType = col("type");
+  if (iStart === -1 || iEnd === -1) {
+    throw new ImportError("Oura CSV must have bedtime_start and bedtime_end.");
+  }
+
+  const rows = records.slice(1).map(({ line, fields }): ImportRow => {
+    const get = (i: number) => (i === -1 ? "" : (fields[i] ?? "").trim());
+    if (get(iType) === "rest") {
+      return {
+        line,
+        fields,
+        status: "skipped",
+        reasons: ["Rest period, not sleep."],
+      };
+    }
+    const start = parseDateTime(get(iStart));
+    const end = parseDateTime(get(iEnd));
+    return nightRow(
+      line,
+      fields,
+      start ?? new Date(NaN),
+      end ?? new Date(NaN),
+      "oura",
+      get(iDay) || undefined,
+      {
+        ...(get(iType).includes("nap") ? { episode: "nap" as const } : {}),
+        zone: end ? importZone(end, offsetFromIso(get(iEnd))) : undefined,
+      }
+    );
+  });
+  return summarizeRows(IMPORT_FORMAT_LABELS.oura, rows);
+}
+
+/* ---------------- Google Fit ---------------- */
+
+const GOOGLE_FIT_SLEEP_ACTIVITY = 72;
+
+// Google Takeout "Fit/All sessions/*.json" files (one session each, or an
+// array) and Fitness REST API session lists ({ session: [...] }).
+export function parseGoogleFit(text: string): ImportReport {
+  const json = parseJson(text);
+  const sessions = Array.isArray(json)
+    ? json
+    : listAt(json, "session") ?? [json];
+
+  const rows = sessions.map(fieldsOf).map((s, i): ImportRow => {
+    const isSleep =
+      s.fitnessActivity === "sleep" ||
+      Number(s.activityType) === GOOGLE_FIT_SLEEP_ACTIVITY;
+    const start =
+      s.startTimeMillis != null
+        ? new Date(Number(s.startTimeMillis))
+        : dateOf(s.startTime);
+    const end =
+      s.endTimeMillis != null
+        ? new Date(Number(s.endTimeMillis))
+        : dateOf(s.endTime);
+    const fields = [
+      shown(s.fitnessActivity ?? s.activityType),
+      validDate(start) ? start.toISOString() : shown(s.startTime),
+      validDate(end) ? end.toISOString() : shown(s.endTime),
+    ];
+    if (!isSleep) {
+      return {
+        line: i + 1,
+        fields,
+        status: "skipped",
+        reasons: [`Not a sleep session (${fields[0] || "unknown activity"}).`],
+      };
+    }
+    return nightRow(i + 1, fields, start, end, "google_fit");
+  });
+  return summarizeRows(IMPORT_FORMAT_LABELS.google_fit, rows);
+}
+
+/* ---------------- entry point ---------------- */
+
+// Detect the format of a picked file and build its import report
+export function buildImportReport(text: string): ImportReport {
+  switch (detectFormat(text)) {
+    case "apple_health":
+      return parseAppleHealth(text);
+    case "fitbit":
+      return parseFitbit(text);
+    case "oura":
+      return parseOura(text);
+    case "google_fit":
+      return parseGoogleFit(text);
+    case "nudgekit_csv":
+      return buildCsvImportReport(text);
+    case "nudgekit_json":
+      return parseNudgeKitJson(text);
+  }
+}
+
+// One report for several picked files (e.g. a folder of Fit sessions)
+export function combineReports(reports: ImportReport[]): ImportReport {
+  if (reports.length === 1) return reports[0];
+  const formats = [...new Set(reports.map((r) => r.format))].join(", ");
+  return summarizeRows(
+    `${formats} · ${reports.length} files`,
+    reports.flatMap((r) => r.rows),
+    reports.flatMap((r) => r.moods)
+  );
+}
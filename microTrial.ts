@@ -0,0 +1,313 @@
+// microTrial.ts
+// Micro-randomized trial mode, for studying whether nudges work. At every
+// decision point (an evening the planner would nudge, or a preview of
+// tonight's nudge while drifting) the app draws between the usual nudge, an
+// alternate wording and no nudge at all, with set probabilities and a seeded
+// draw so every decision can be reproduced. Each decision is logged with the
+// numbers it was made on; its outcome, the next night's midsleep shift, is
+// worked out from the stored nights whenever the log is read.
+
+import type { DerivedNight, Settings } from "./storage";
+import {
+  MINUTES_PER_DAY,
+  SleepSummary,
+  clampTo,
+  clockDiff,
+} from "./sleepAnalytics";
+import {
+  NudgeContext,
+  NudgeOptions,
+  PlannedNudge,
+  eveningOf,
+  nudgeContext,
+  resolveNudgeOptions,
+} from "./bedtimeNudges";
+import { RISK_TIERS } from "./riskTiers";
+import { RenderedNudge, hashText, renderNudge } from "./nudgeTemplates";
+import { seededRandom } from "./scenarios";
+import { ZoneRef, deviceZone } from "./timezone";
+
+export type TrialArm =
+  | "nudge" // the usual wording
+  | "alternate" // an alternate template (see NudgeTemplate.alternate)
+  | "none"; // nothing is sent
+
+export type DecisionPoint = "scheduled" | "manual";
+
+export type TrialOptions = {
+  enabled?: boolean;
+  seed?: number;
+  nudgePct?: number; // chance of the usual nudge, percent
+  alternatePct?: number; // chance of the alternate; the rest is no nudge
+};
+
+export const TRIAL_OPTION_RANGES = {
+  nudgePct: { min: 0, max: 100, step: 5 },
+  alternatePct: { min: 0, max: 100, step: 5 },
+} as const;
+
+export const DEFAULT_NUDGE_PCT = 40;
+export const DEFAULT_ALTERNATE_PCT = 30;
+export const DEFAULT_TRIAL_SEED = 1;
+
+export type TrialDecision = {
+  id: string; // "scheduled-YYYY-MM-DD" or "manual-<ISO time>"
+  point: DecisionPoint;
+  at: string; // ISO; when the nudge went out, or would have
+  evening: string; // YYYY-MM-DD of the night the nudge was for
+  seed: number;
+  draw: number; // uniform in [0, 1); the arm is where it falls
+  pNudge: number; // 0..1, as randomized
+  pAlternate: number;
+  arm: TrialArm;
+  templateId: string | null; // null when nothing was sent
+  title: string | null;
+  body: string | null;
+  context: NudgeContext;
+};
+
+export type TrialOutcome = {
+  wakeDay: string; // of the main sleep the outcome is measured on
+  midsleepClock: number; // minutes after local midnight
+  shiftMin: number | null; // from the baseline at decision time; + = later
+  changeMin: number | null; // shiftMin minus the lateness decided on
+};
+
+export type TrialRecord = TrialDecision & { outcome: TrialOutcome | null };
+
+export function resolveTrialOptions(
+  opts: TrialOptions = {}
+): Required<TrialOptions> {
+  const r = TRIAL_OPTION_RANGES;
+  const nudgePct = clampTo(opts.nudgePct, DEFAULT_NUDGE_PCT, r.nudgePct);
+  return {
+    enabled: opts.enabled ?? false,
+    seed: clampTo(opts.seed, DEFAULT_TRIAL_SEED, {
+      min: 0,
+      max: 2 ** 31 - 1,
+    }),
+    nudgePct,
+    // the two chances can never add up to more than 100%
+    alternatePct: Math.min(
+      100 - nudgePct,
+      clampTo(opts.alternatePct, DEFAULT_ALTERNATE_PCT, r.alternatePct)
+    ),
+  };
+}
+
+export const trialOptionsFromSettings = (s: Settings): TrialOptions => ({
+  enabled: s.trialOn,
+  seed: s.trialSeed,
+  nudgePct: s.trialNudgePct,
+  alternatePct: s.trialAlternatePct,
+});
+
+export const newTrialSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+/* ---------------- randomizing ---------------- */
+
+// Same seed and decision id, same draw
+export function drawArm(
+  opts: TrialOptions,
+  decisionId: string
+): { draw: number; arm: TrialArm } {
+  const { seed, nudgePct, alternatePct } = resolveTrialOptions(opts);
+  const draw = seededRandom(hashText(`${seed}:${decisionId}`))();
+  const arm: TrialArm =
+    draw < nudgePct / 100
+      ? "nudge"
+      : draw < (nudgePct + alternatePct) / 100
+      ? "alternate"
+      : "none";
+  return { draw, arm };
+}
+
+function decision(
+  id: string,
+  point: DecisionPoint,
+  at: Date,
+  evening: string,
+  opts: TrialOptions,
+  draw: number,
+  arm: TrialArm,
+  message: RenderedNudge | null,
+  summary: SleepSummary
+): TrialDecision {
+  const { seed, nudgePct, alternatePct } = resolveTrialOptions(opts);
+  return {
+    id,
+    point,
+    at: at.toISOString(),
+    evening,
+    seed,
+    draw,
+    pNudge: nudgePct / 100,
+    pAlternate: alternatePct / 100,
+    arm,
+    templateId: message?.templateId ?? null,
+    title: message?.title ?? null,
+    body: message?.body ?? null,
+    context: nudgeContext(summary),
+  };
+}
+
+// Gives every planned evening its arm: the alternate arm is reworded, and
+// "none" stays in the plan (so it is logged) but is never scheduled. The
+// plan is returned as it was when the trial is off.
+export function applyTrial(
+  plan: PlannedNudge[],
+  summary: SleepSummary,
+  nudgeOpts: NudgeOptions,
+  opts: TrialOptions
+): PlannedNudge[] {
+  if (!resolveTrialOptions(opts).enabled) return plan;
+  const { leadMin, templates } = resolveNudgeOptions(nudgeOpts);
+  return plan.map((n) => {
+    const { arm } = drawArm(opts, `scheduled-${n.evening}`);
+    if (arm !== "alternate") return { ...n, arm };
+    const text = renderNudge(
+      summary,
+      n.evening,
+      { bedtimeClock: n.bedtimeClock, leadMin },
+      templates,
+      true
+    );
+    return { ...n, ...text, arm };
+  });
+}
+
+// One decision per planned evening that went through applyTrial
+export function decisionsFromPlan(
+  plan: PlannedNudge[],
+  summary: SleepSummary,
+  opts: TrialOptions
+): TrialDecision[] {
+  return plan.flatMap((n) => {
+    if (!n.arm) return [];
+    const id = `scheduled-${n.evening}`;
+    const { draw } = drawArm(opts, id);
+    const message = n.arm === "none" ? null : n;
+    return [
+      decision(
+        id,
+        "scheduled",
+        n.at,
+        n.evening,
+        opts,
+        draw,
+        n.arm,
+        message,
+        summary
+      ),
+    ];
+  });
+}
+
+// The log after re-planning. Decisions whose time has passed are final;
+// scheduled ones still ahead are replaced by the new plan's, so the log
+// always matches what is on the device. Newest first.
+export function mergeDecisions(
+  log: TrialDecision[],
+  planned: TrialDecision[],
+  now = new Date()
+): TrialDecision[] {
+  const final = log.filter(
+    (d) => d.point === "manual" || Date.parse(d.at) <= now.getTime()
+  );
+  const ids = new Set(final.map((d) => d.id));
+  const ahead = planned.filter(
+    (d) => !ids.has(d.id) && Date.parse(d.at) > now.getTime()
+  );
+  return [...final, ...ahead].sort((a, b) => b.at.localeCompare(a.at));
+}
+
+// A "Preview tonight's nudge" press while the tier calls for a nudge. Null
+// when it does not (nothing to randomize) or the trial is off; the message
+// is null for the "none" arm.
+export function manualDecision(
+  summary: SleepSummary,
+  nudgeOpts: NudgeOptions,
+  opts: TrialOptions,
+  now = new Date(),
+  zone: ZoneRef = deviceZone(now)
+): { decision: TrialDecision; message: RenderedNudge | null } | null {
+  if (!resolveTrialOptions(opts).enabled) return null;
+  if (!RISK_TIERS[summary.risk].notify) return null;
+  const { templates } = resolveNudgeOptions(nudgeOpts);
+  const id = `manual-${now.toISOString()}`;
+  const evening = eveningOf(now, zone);
+  const { draw, arm } = drawArm(opts, id);
+  const { bedtimeClock } = nudgeContext(summary);
+  const message =
+    arm === "none"
+      ? null
+      : renderNudge(
+          summary,
+          evening,
+          { bedtimeClock },
+          templates,
+          arm === "alternate"
+        );
+  return {
+    decision: decision(
+      id,
+      "manual",
+      now,
+      evening,
+      opts,
+      draw,
+      arm,
+      message,
+      summary
+    ),
+    message,
+  };
+}
+
+/* ---------------- outcomes ---------------- */
+
+// Outcomes are measured on the first main sleep starting this soon after
+// the decision
+const OUTCOME_WINDOW_MIN = MINUTES_PER_DAY;
+
+// The next night's main sleep, against the baseline the decision saw. Null
+// until that night is logged.
+export function trialOutcome(
+  d: TrialDecision,
+  derived: DerivedNight[]
+): TrialOutcome | null {
+  const from = Date.parse(d.at);
+  const to = from + OUTCOME_WINDOW_MIN * 60000;
+  let night: DerivedNight | null = null;
+  for (const n of derived) {
+    const start = Date.parse(n.sleep_start);
+    if (n.kind !== "main" || start < from || start >= to) continue;
+    if (!night || start < Date.parse(night.sleep_start)) night = n;
+  }
+  if (!night) return null;
+  const base = d.context.baselineMid;
+  const shiftMin =
+    base == null ? null : Math.round(clockDiff(night.midsleep_clock, base));
+  return {
+    wakeDay: night.wake_day,
+    midsleepClock: night.midsleep_clock,
+    shiftMin,
+    changeMin:
+      shiftMin == null
+        ? null
+        : Math.round(shiftMin - d.context.recentLateness),
+  };
+}
+
+// `derived` as from deriveAll
+export const withOutcomes = (
+  log: TrialDecision[],
+  derived: DerivedNight[]
+): TrialRecord[] =>
+  log.map((d) => ({ ...d, outcome: trialOutcome(d, derived) }));
+
+export function armCounts(log: TrialDecision[]): Record<TrialArm, number> {
+  const counts: Record<TrialArm, number> = { nudge: 0, alternate: 0, none: 0 };
+  for (const d of log) counts[d.arm]++;
+  return counts;
+}
@@ -0,0 +1,218 @@
+// nightEntry.ts
+// Turning what a user types into the night form (wake date, bedtime, wake
+// time, as clock times where the night was slept, plus the optional morning
+// diary) into a Night and back. A bedtime later on the clock than the wake
+// time is taken to be on the evening before.
+
+import type { EpisodeKind, Night, SleepDiary } from "./storage";
+import { MINUTES_PER_DAY } from "./sleepAnalytics";
+import {
+  ZoneRef,
+  clockOf,
+  dayOf,
+  deviceZone,
+  epochFromLocal,
+  localDayStart,
+  localMinutes,
+  zoneOffsetAt,
+} from "./timezone";
+
+export type NightDraft = {
+  date: string; // YYYY-MM-DD, the day the user woke up
+  bedtime: string; // HH:MM, 24-hour; when the user tried to sleep
+  wake: string; // HH:MM, 24-hour; final awakening
+  episode: EpisodeKind | null; // null = classify by duration and time
+  // Consensus Sleep Diary answers; "" (or null) means not answered
+  inBed: string; // HH:MM, got into bed, at or before bedtime
+  latency: string; // minutes to fall asleep
+  awakenings: string; // count
+  waso: string; // minutes awake in total after falling asleep
+  outOfBed: string; // HH:MM, got up, at or after the wake time
+  quality: SleepDiary["quality"] | null;
+};
+
+// Shorter entries are almost always a typo in one of the times
+const MIN_ENTRY_MIN = 15;
+// Getting into bed or up this long around the sleep period is a typo too
+const MAX_BED_GAP_MIN = 12 * 60;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const fmtClock = (local: number) => {
+  const m = clockOf(local);
+  return `${pad(Math.floor(m / 60))}:${pad(m % 60)}`;
+};
+
+// "7:05", "07:05" or "0705" -> minutes after midnight
+export function parseClock(value: string): number | null {
+  const m = /^(\d{1,2}):?(\d{2})$/.exec(value.trim());
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
+
+// YYYY-MM-DD -> local minute of that midnight, if it is a real date
+function parseDay(value: string): number | null {
+  const v = value.trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(v)) return null;
+  const start = localDayStart(v);
+  return Number.isFinite(start) && dayOf(start) === v ? start : null;
+}
+
+const toDate = (local: number, zone: ZoneRef) =>
+  new Date(epochFromLocal(local, zone) * 60000);
+
+const EMPTY_DIARY = {
+  inBed: "",
+  latency: "",
+  awakenings: "",
+  waso: "",
+  outOfBed: "",
+  quality: null,
+};
+
+// A draft for a new night: the one that ended this morning, at typical times
+export function emptyDraft(now = new Date()): NightDraft {
+  return {
+    date: dayOf(localMinutes(now, deviceZone(now))),
+    bedtime: "23:00",
+    wake: "07:00",
+    episode: null,
+    ...EMPTY_DIARY,
+  };
+}
+
+// Times are shown on the clock of the zone the night was slept in
+export function draftFromNight(night: Night): NightDraft {
+  const local = (iso: string) => localMinutes(new Date(iso), night);
+  const d = night.diary ?? {};
+  const text = (n?: number) => (n == null ? "" : String(n));
+  return {
+    date: dayOf(local(night.sleep_end)),
+    bedtime: fmtClock(local(night.sleep_start)),
+    wake: fmtClock(local(night.sleep_end)),
+    episode: night.episode ?? null,
+    inBed: d.in_bed_at ? fmtClock(local(d.in_bed_at)) : "",
+    latency: text(d.sol_min),
+    awakenings: text(d.awakenings),
+    waso: text(d.waso_min),
+    outOfBed: d.out_of_bed_at ? fmtClock(local(d.out_of_bed_at)) : "",
+    quality: d.quality ?? null,
+  };
+}
+
+// Whole non-negative number, or undefined when left blank
+function parseCount(value: string): number | undefined | null {
+  const v = value.trim();
+  if (v === "") return undefined;
+  return /^\d+$/.test(v) ? Number(v) : null;
+}
+
+// Diary answers from a draft, anchored to the sleep period
+function diaryFromDraft(
+  draft: NightDraft,
+  start: Date,
+  end: Date,
+  zone: ZoneRef
+): { diary?: SleepDiary } | { error: string } {
+  const durationMin = (end.getTime() - start.getTime()) / 60000;
+  const diary: SleepDiary = {};
+
+  if (draft.inBed.trim()) {
+    const clock = parseClock(draft.inBed);
+    if (clock == null) return { error: "Enter the time in bed as HH:MM." };
+    const startClock = clockOf(localMinutes(start, zone));
+    const before = (startClock - clock + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    if (before > MAX_BED_GAP_MIN) {
+      return { error: "The time you got into bed is long before bedtime." };
+    }
+    diary.in_bed_at = new Date(start.getTime() - before * 60000).toISOString();
+  }
+
+  if (draft.outOfBed.trim()) {
+    const clock = parseClock(draft.outOfBed);
+    if (clock == null) return { error: "Enter the time out of bed as HH:MM." };
+    const wakeClock = clockOf(localMinutes(end, zone));
+    const after = (clock - wakeClock + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    if (after > MAX_BED_GAP_MIN) {
+      return { error: "The time you got up is long after the wake time." };
+    }
+    diary.out_of_bed_at = new Date(end.getTime() + after * 60000).toISOString();
+  }
+
+  const latency = parseCount(draft.latency);
+  const awakenings = parseCount(draft.awakenings);
+  const waso = parseCount(draft.waso);
+  if (latency === null || awakenings === null || waso === null) {
+    return { error: "Minutes and awakenings must be whole numbers." };
+  }
+  if ((latency ?? 0) + (waso ?? 0) >= durationMin) {
+    return { error: "Time awake is longer than the whole night." };
+  }
+  diary.sol_min = latency;
+  diary.awakenings = awakenings;
+  diary.waso_min = waso;
+  diary.quality = draft.quality ?? undefined;
+
+  const answered = Object.entries(diary).filter(([, v]) => v !== undefined);
+  return answered.length > 0 ? { diary: Object.fromEntries(answered) } : {};
+}
+
+// Build a manual night from a draft, read on the clock of `zone` (the
+// device's for a new night, the night's own when editing). Returns an error
+// message instead when the draft is incomplete or would clash with another
+// stored night.
+export function nightFromDraft(
+  draft: NightDraft,
+  others: Night[] = [],
+  zone: ZoneRef = deviceZone()
+): { night: Night } | { error: string } {
+  const day = parseDay(draft.date);
+  if (day == null) return { error: "Enter the wake date as YYYY-MM-DD." };
+  const bed = parseClock(draft.bedtime);
+  if (bed == null) return { error: "Enter the bedtime as HH:MM (24-hour)." };
+  const wake = parseClock(draft.wake);
+  if (wake == null) return { error: "Enter the wake time as HH:MM (24-hour)." };
+
+  const end = toDate(day + wake, zone);
+  // cross midnight: a bedtime after the wake time was the evening before
+  const start = toDate(day + bed - (bed >= wake ? MINUTES_PER_DAY : 0), zone);
+
+  const durationMin = (end.getTime() - start.getTime()) / 60000;
+  if (durationMin < MIN_ENTRY_MIN) {
+    return { error: `A night must last at least ${MIN_ENTRY_MIN} minutes.` };
+  }
+  if (end.getTime() > Date.now()) {
+    return { error: "The wake time is in the future." };
+  }
+
+  const diary = diaryFromDraft(draft, start, end, zone);
+  if ("error" in diary) return diary;
+
+  const night: Night = {
+    date: draft.date.trim(),
+    sleep_start: start.toISOString(),
+    sleep_end: end.toISOString(),
+    source: "manual",
+    ...(zone.tz ? { tz: zone.tz } : {}),
+    utc_offset_min: zoneOffsetAt(zone, end),
+    ...diary,
+    ...(draft.episode ? { episode: draft.episode } : {}),
+  };
+
+  const clash = others.find(
+    (o) =>
+      new Date(o.sleep_start).getTime() < end.getTime() &&
+      start.getTime() < new Date(o.sleep_end).getTime()
+  );
+  if (clash) {
+    return {
+      error: `Overlaps the stored night ending ${new Date(
+        clash.sleep_end
+      ).toLocaleString()}.`,
+    };
+  }
+  return { night };
+}
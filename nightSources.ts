@@ -0,0 +1,17 @@
+// nightSources.ts
+// Where a night came from (Night.source). Kept out of storage.ts, which loads
+// React Native, so the importers can run in plain Node.
+
+export const NIGHT_SOURCES = [
+  "csv",
+  "seed",
+  "manual",
+  "manual_late",
+  "manual_on_time",
+  "apple_health",
+  "fitbit",
+  "oura",
+  "google_fit",
+] as const;
+
+export type NightSource = (typeof NIGHT_SOURCES)[number];
@@ -0,0 +1,49 @@
+// notifications.ts
+// Keeps the device's scheduled bedtime nudges in line with a plan from
+// bedtimeNudges.ts: every previously scheduled bedtime nudge is cancelled
+// and the plan scheduled again. On web nothing is scheduled.
+
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import type { PlannedNudge } from "./bedtimeNudges";
+
+// Marks our notifications so unrelated ones (e.g. the demo) are left alone
+const NUDGE_KIND = "bedtime";
+
+export async function scheduledNudgeIds(): Promise<string[]> {
+  if (Platform.OS === "web") return [];
+  const all = await Notifications.getAllScheduledNotificationsAsync();
+  return all
+    .filter((r) => r.content.data?.kind === NUDGE_KIND)
+    .map((r) => r.identifier);
+}
+
+export async function cancelNudges(): Promise<void> {
+  const ids = await scheduledNudgeIds();
+  await Promise.all(
+    ids.map((id) => Notifications.cancelScheduledNotificationAsync(id))
+  );
+}
+
+// Returns how many nudges are now scheduled. Evenings a trial drew "none"
+// for are left out.
+export async function syncNudges(plan: PlannedNudge[]): Promise<number> {
+  if (Platform.OS === "web") return 0;
+  await cancelNudges();
+  const due = plan.filter((n) => n.arm !== "none");
+  for (const n of due) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: n.id,
+      content: {
+        title: n.title,
+        body: n.body,
+        data: { kind: NUDGE_KIND, evening: n.evening },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: n.at,
+      },
+    });
+  }
+  return due.length;
+}
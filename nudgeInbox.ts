@@ -0,0 +1,130 @@
+// nudgeInbox.ts
+// A lasting record of every nudge the app sent: when, how (notification or
+// in-app card), what it said, whether it was opened, and the numbers behind
+// it, so "why did I get this?" can be answered long after the notification
+// is gone. Scheduled nudges are recorded when they are planned and count as
+// sent once their time has passed.
+
+import type { SleepSummary } from "./sleepAnalytics";
+import type { TrialArm } from "./microTrial";
+import { NudgeContext, PlannedNudge, nudgeContext } from "./bedtimeNudges";
+
+export type NudgeChannel = "native" | "in_app";
+
+export type NudgeOrigin =
+  | "scheduled" // the evening's bedtime nudge
+  | "preview" // "Preview tonight's nudge"
+  | "demo"; // the one-minute demo
+
+export type InboxEntry = {
+  id: string; // the notification identifier for native nudges
+  sentAt: string; // ISO
+  channel: NudgeChannel;
+  origin: NudgeOrigin;
+  evening: string | null; // YYYY-MM-DD, for scheduled nudges
+  title: string;
+  body: string;
+  templateId: string | null;
+  arm: TrialArm | null; // in trial mode
+  context: NudgeContext;
+  reasons: string[]; // the risk explanation at the time (summary.reasons)
+  openedAt: string | null; // ISO; in-app cards are opened when shown
+};
+
+export const CHANNEL_LABELS: Record<NudgeChannel, string> = {
+  native: "Notification",
+  in_app: "In-app",
+};
+
+export const ORIGIN_LABELS: Record<NudgeOrigin, string> = {
+  scheduled: "Bedtime nudge",
+  preview: "Preview",
+  demo: "Demo",
+};
+
+export function inboxEntry(
+  summary: SleepSummary,
+  message: { title: string; body: string; templateId?: string },
+  meta: {
+    id: string;
+    sentAt: Date;
+    channel: NudgeChannel;
+    origin: NudgeOrigin;
+    evening?: string;
+    arm?: TrialArm;
+  }
+): InboxEntry {
+  const sentAt = meta.sentAt.toISOString();
+  return {
+    id: meta.id,
+    sentAt,
+    channel: meta.channel,
+    origin: meta.origin,
+    evening: meta.evening ?? null,
+    title: message.title,
+    body: message.body,
+    templateId: message.templateId ?? null,
+    arm: meta.arm ?? null,
+    context: nudgeContext(summary),
+    reasons: summary.reasons,
+    openedAt: meta.channel === "in_app" ? sentAt : null,
+  };
+}
+
+// Entries for the plan's nudges; evenings a trial drew "none" send nothing
+export const entriesFromPlan = (
+  plan: PlannedNudge[],
+  summary: SleepSummary
+): InboxEntry[] =>
+  plan
+    .filter((n) => n.arm !== "none")
+    .map((n) =>
+      inboxEntry(summary, n, {
+        id: n.id,
+        sentAt: n.at,
+        channel: "native",
+        origin: "scheduled",
+        evening: n.evening,
+        arm: n.arm,
+      })
+    );
+
+const newestFirst = (a: InboxEntry, b: InboxEntry) =>
+  b.sentAt.localeCompare(a.sentAt);
+
+// The inbox after re-planning: sent entries are final, and scheduled ones
+// still ahead are replaced by the new plan's. Newest first.
+export function mergeInbox(
+  log: InboxEntry[],
+  planned: InboxEntry[],
+  now = new Date()
+): InboxEntry[] {
+  const sent = log.filter(
+    (e) => e.origin !== "scheduled" || Date.parse(e.sentAt) <= now.getTime()
+  );
+  const ids = new Set(sent.map((e) => e.id));
+  const ahead = planned.filter(
+    (e) => !ids.has(e.id) && Date.parse(e.sentAt) > now.getTime()
+  );
+  return [...sent, ...ahead].sort(newestFirst);
+}
+
+export const addEntry = (log: InboxEntry[], entry: InboxEntry) =>
+  [entry, ...log.filter((e) => e.id !== entry.id)].sort(newestFirst);
+
+// What the inbox shows: nudges whose time has come
+export const sentEntries = (log: InboxEntry[], now = new Date()) =>
+  log.filter((e) => Date.parse(e.sentAt) <= now.getTime());
+
+// The log with `id` marked opened; null when there is nothing to change
+export function markOpened(
+  log: InboxEntry[],
+  id: string,
+  at = new Date()
+): InboxEntry[] | null {
+  const entry = log.find((e) => e.id === id);
+  if (!entry || entry.openedAt) return null;
+  return log.map((e) =>
+    e.id === id ? { ...e, openedAt: at.toISOString() } : e
+  );
+}
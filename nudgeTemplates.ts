@@ -0,0 +1,365 @@
+// nudgeTemplates.ts
+// Nudge wording as data: a catalog of title/body templates per risk tier and
+// drift direction, with {placeholders} filled in from the sleep summary. The
+// built-in catalog is nudgeTemplates.json; a catalog file with the same shape
+// can be loaded in the app to try new wording without a code change.
+
+import type { DriftDirection, RiskTier, SleepSummary } from "./sleepAnalytics";
+import { MINUTES_PER_DAY, fmtHM, fmtMinutesAsHours } from "./sleepAnalytics";
+import { seededRandom } from "./scenarios";
+import { localDayStart } from "./timezone";
+import builtIn from "./nudgeTemplates.json";
+
+export const TEMPLATE_FORMAT = "nudgekit-templates";
+export const TEMPLATE_VERSION = 1;
+
+export type RotationMode =
+  | "sequential" // variants take turns, one per evening
+  | "random"; // shuffled, but never the same variant two evenings running
+
+export type NudgeTemplate = {
+  id: string;
+  tier: RiskTier;
+  direction?: DriftDirection; // either direction when absent
+  minStreak?: number; // only once this many nights in a row have drifted
+  alternate?: boolean; // kept for a trial's alternate arm (see microTrial.ts)
+  title: string;
+  body: string;
+};
+
+export type TemplateCatalog = {
+  format: typeof TEMPLATE_FORMAT;
+  version: number;
+  rotation: RotationMode;
+  lead: string; // put before scheduled nudges' bodies; "" for none
+  templates: NudgeTemplate[];
+};
+
+export type RenderedNudge = { templateId: string; title: string; body: string };
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+// Every placeholder a template may use, with what it becomes
+export const PLACEHOLDERS = {
+  baseline_time: "usual sleep midpoint, e.g. 03:15",
+  bedtime: "usual bedtime, e.g. 23:10",
+  lateness: "how far last night's midpoint was off, e.g. 1.5 h",
+  direction: '"later" or "earlier"',
+  streak: "nights in a row drifting that way",
+  min_nights: "nights needed before drift is judged",
+  lead: "time from the nudge to the usual bedtime (lead text only)",
+} as const;
+
+export type Placeholder = keyof typeof PLACEHOLDERS;
+
+export type Situation = { tier: RiskTier; direction: DriftDirection | null };
+
+// Tier and direction pairs summarize() can produce; earlier drift tops out
+// at moderate (see riskTier)
+export const SITUATIONS: Situation[] = [
+  { tier: "insufficient", direction: null },
+  { tier: "on_track", direction: null },
+  { tier: "slight", direction: "later" },
+  { tier: "slight", direction: "earlier" },
+  { tier: "moderate", direction: "later" },
+  { tier: "moderate", direction: "earlier" },
+  { tier: "high", direction: "later" },
+];
+
+const TIERS: readonly RiskTier[] = [
+  "insufficient",
+  "on_track",
+  "slight",
+  "moderate",
+  "high",
+];
+const DIRECTIONS: readonly DriftDirection[] = ["later", "earlier"];
+const ROTATIONS: readonly RotationMode[] = ["sequential", "random"];
+
+/* ---------------- reading ---------------- */
+
+const isText = (v: unknown): v is string =>
+  typeof v === "string" && v.trim() !== "";
+
+const placeholdersIn = (text: string) =>
+  [...text.matchAll(/\{(\w+)\}/g)].map((m) => m[1]);
+
+function checkTemplate(raw: unknown, i: number): NudgeTemplate {
+  const t = (raw ?? {}) as Record<string, unknown>;
+  const where = isText(t.id) ? `Template "${t.id}"` : `Template ${i + 1}`;
+  if (!isText(t.id)) throw new TemplateError(`${where} has no id.`);
+  if (!TIERS.includes(t.tier as RiskTier)) {
+    throw new TemplateError(
+      `${where} has an unknown tier; use one of ${TIERS.join(", ")}.`
+    );
+  }
+  if (
+    t.direction != null &&
+    !DIRECTIONS.includes(t.direction as DriftDirection)
+  ) {
+    throw new TemplateError(`${where}: direction must be later or earlier.`);
+  }
+  if (
+    t.minStreak != null &&
+    !(Number.isInteger(t.minStreak) && (t.minStreak as number) >= 0)
+  ) {
+    throw new TemplateError(`${where}: minStreak must be a whole number.`);
+  }
+  if (t.alternate != null && typeof t.alternate !== "boolean") {
+    throw new TemplateError(`${where}: alternate must be true or false.`);
+  }
+  if (!isText(t.title) || !isText(t.body)) {
+    throw new TemplateError(`${where} needs a title and a body.`);
+  }
+  // a typo would otherwise reach the user as "{latenes}"
+  const unknown = placeholdersIn(`${t.title} ${t.body}`).find(
+    (p) => !(p in PLACEHOLDERS) || p === "lead"
+  );
+  if (unknown) {
+    throw new TemplateError(`${where} uses an unknown {${unknown}}.`);
+  }
+  return {
+    id: t.id,
+    tier: t.tier as RiskTier,
+    ...(t.direction != null
+      ? { direction: t.direction as DriftDirection }
+      : {}),
+    ...(t.minStreak != null ? { minStreak: t.minStreak as number } : {}),
+    ...(t.alternate ? { alternate: true } : {}),
+    title: t.title,
+    body: t.body,
+  };
+}
+
+// Validates a parsed catalog. Every situation must have a regular template
+// without a minStreak, so there is always something to say.
+export function checkCatalog(raw: unknown): TemplateCatalog {
+  const c = (raw ?? {}) as Record<string, unknown>;
+  if (c.format !== TEMPLATE_FORMAT) {
+    throw new TemplateError("This is not a NudgeKit template file.");
+  }
+  if (typeof c.version !== "number" || c.version > TEMPLATE_VERSION) {
+    throw new TemplateError(
+      "These templates are from a newer app version; update the app first."
+    );
+  }
+  const rotation = c.rotation ?? "sequential";
+  if (!ROTATIONS.includes(rotation as RotationMode)) {
+    throw new TemplateError("rotation must be sequential or random.");
+  }
+  const lead = c.lead ?? "";
+  if (typeof lead !== "string") {
+    throw new TemplateError("lead must be text.");
+  }
+  const badLead = placeholdersIn(lead).find((p) => p !== "lead");
+  if (badLead) {
+    throw new TemplateError(`lead can only use {lead}, not {${badLead}}.`);
+  }
+  if (!Array.isArray(c.templates)) {
+    throw new TemplateError("The file has no templates list.");
+  }
+
+  const templates = c.templates.map(checkTemplate);
+  const ids = new Set<string>();
+  for (const t of templates) {
+    if (ids.has(t.id)) {
+      throw new TemplateError(`Template id "${t.id}" is used twice.`);
+    }
+    ids.add(t.id);
+  }
+  for (const s of SITUATIONS) {
+    if (templatesFor(templates, s.tier, s.direction, 0).length === 0) {
+      throw new TemplateError(
+        `No template for ${situationLabel(s.tier, s.direction)}.`
+      );
+    }
+  }
+  return {
+    format: TEMPLATE_FORMAT,
+    version: c.version,
+    rotation: rotation as RotationMode,
+    lead,
+    templates,
+  };
+}
+
+export function parseCatalog(text: string): TemplateCatalog {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new TemplateError("The template file is not valid JSON.");
+  }
+  return checkCatalog(raw);
+}
+
+export const DEFAULT_CATALOG = checkCatalog(builtIn);
+
+// A catalog kept in settings; the built-in one if it no longer checks out
+export function storedCatalog(raw: unknown): TemplateCatalog {
+  if (raw == null) return DEFAULT_CATALOG;
+  try {
+    return checkCatalog(raw);
+  } catch (err) {
+    console.warn("Stored nudge templates ignored:", err);
+    return DEFAULT_CATALOG;
+  }
+}
+
+export const catalogFileName = () => "nudgekit-templates.json";
+
+/* ---------------- choosing ---------------- */
+
+export function situationLabel(
+  tier: RiskTier,
+  direction: DriftDirection | null
+): string {
+  const name = tier.replace("_", " ");
+  return direction ? `${name}, ${direction}` : name;
+}
+
+// Regular (or alternate) templates for a tier and direction once `streak`
+// nights have drifted; all of them with the default, as the preview lists
+// them
+export function templatesFor(
+  templates: NudgeTemplate[],
+  tier: RiskTier,
+  direction: DriftDirection | null,
+  streak = Infinity,
+  alternate = false
+): NudgeTemplate[] {
+  return templates.filter(
+    (t) =>
+      t.tier === tier &&
+      (t.direction == null || t.direction === direction) &&
+      streak >= (t.minStreak ?? 0) &&
+      !!t.alternate === alternate
+  );
+}
+
+// The variants the summary's tier, direction and streak allow, in file order
+export const variantsFor = (
+  catalog: TemplateCatalog,
+  summary: SleepSummary,
+  alternate = false
+) =>
+  templatesFor(
+    catalog.templates,
+    summary.risk,
+    summary.direction,
+    summary.driftedNights,
+    alternate
+  );
+
+// FNV-1a; also seeds the trial's draws (see microTrial.ts)
+export function hashText(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function shuffled(n: number, seed: number): number[] {
+  const rand = seededRandom(seed);
+  const order = [...Array(n).keys()];
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+// The variant for an evening (YYYY-MM-DD). Depends only on the variants, the
+// rotation and the date, so re-planning never reshuffles what is already
+// scheduled. Random rotation deals every variant once per round, and a new
+// round never opens with the one the last ended on.
+export function pickVariant(
+  variants: NudgeTemplate[],
+  rotation: RotationMode,
+  evening: string
+): NudgeTemplate {
+  const n = variants.length;
+  const day = Math.floor(localDayStart(evening) / MINUTES_PER_DAY);
+  if (n <= 2 || rotation === "sequential") return variants[day % n];
+
+  const key = hashText(variants.map((t) => t.id).join("|"));
+  const round = Math.floor(day / n);
+  const order = shuffled(n, key + round);
+  const before = shuffled(n, key + round - 1);
+  if (order[0] === before[n - 1]) [order[0], order[1]] = [order[1], order[0]];
+  return variants[order[day % n]];
+}
+
+/* ---------------- rendering ---------------- */
+
+export type RenderContext = {
+  bedtimeClock?: number | null; // usual bedtime, minutes after midnight
+  leadMin?: number; // > 0 puts the catalog's lead text first
+  direction?: DriftDirection | null; // overrides the summary's (previews)
+};
+
+export function placeholderValues(
+  summary: SleepSummary,
+  ctx: RenderContext = {}
+): Record<Placeholder, string> {
+  return {
+    baseline_time: fmtHM(summary.baselineMid),
+    bedtime: fmtHM(ctx.bedtimeClock ?? null),
+    lateness: fmtMinutesAsHours(summary.recentLateness),
+    direction: ctx.direction ?? summary.direction ?? "",
+    streak: String(summary.driftedNights),
+    min_nights: String(summary.minCoverage),
+    lead: fmtMinutesAsHours(ctx.leadMin ?? 0),
+  };
+}
+
+export const fillPlaceholders = (
+  text: string,
+  values: Record<Placeholder, string>
+) =>
+  text.replace(/\{(\w+)\}/g, (m, key: string) =>
+    key in values ? values[key as Placeholder] : m
+  );
+
+export function renderTemplate(
+  template: NudgeTemplate,
+  summary: SleepSummary,
+  ctx: RenderContext = {},
+  catalog: TemplateCatalog = DEFAULT_CATALOG
+): RenderedNudge {
+  const values = placeholderValues(summary, ctx);
+  const lead =
+    (ctx.leadMin ?? 0) > 0 ? fillPlaceholders(catalog.lead, values) : "";
+  return {
+    templateId: template.id,
+    title: fillPlaceholders(template.title, values),
+    body: lead + fillPlaceholders(template.body, values),
+  };
+}
+
+// The nudge for the summary's tier on `evening` (YYYY-MM-DD). `alternate`
+// picks from the alternate templates; without any for the situation, from
+// the regular variants other than the evening's usual one.
+export function renderNudge(
+  summary: SleepSummary,
+  evening: string,
+  ctx: RenderContext = {},
+  catalog: TemplateCatalog = DEFAULT_CATALOG,
+  alternate = false
+): RenderedNudge {
+  let variants = variantsFor(catalog, summary);
+  if (alternate) {
+    const usual = pickVariant(variants, catalog.rotation, evening);
+    const own = variantsFor(catalog, summary, true);
+    const others = variants.filter((t) => t !== usual);
+    variants = own.length > 0 ? own : others.length > 0 ? others : variants;
+  }
+  const variant = pickVariant(variants, catalog.rotation, evening);
+  return renderTemplate(variant, summary, ctx, catalog);
+}
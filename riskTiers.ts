@@ -0,0 +1,32 @@
+// riskTiers.ts
+// What each risk tier looks like: label, color and whether it sends a
+// notification. Tiers themselves are worked out in sleepAnalytics.ts (see
+// RiskTier); what the nudges say is in nudgeTemplates.json.
+
+import { RiskTier, SleepSummary } from "./sleepAnalytics";
+
+export type RiskTierInfo = {
+  label: string;
+  color: string;
+  notify: boolean; // on track and insufficient data stay quiet
+};
+
+export const RISK_TIERS: Record<RiskTier, RiskTierInfo> = {
+  insufficient: { label: "Not enough data", color: "#e5e7eb", notify: false },
+  on_track: { label: "On track", color: "#4ade80", notify: false },
+  slight: { label: "Slight drift", color: "#a3e635", notify: true },
+  moderate: { label: "Moderate drift", color: "#fbbf24", notify: true },
+  high: { label: "HIGH", color: "#ff7a7a", notify: true },
+};
+
+export function riskLabel(summary: SleepSummary): string {
+  const tier = RISK_TIERS[summary.risk];
+  switch (summary.risk) {
+    case "insufficient":
+      return `Insufficient data (need ≥ ${summary.minCoverage} nights)`;
+    case "on_track":
+      return tier.label;
+    default:
+      return `${tier.label}, ${summary.direction} (nudge would fire)`;
+  }
+}
@@ -0,0 +1,250 @@
+// scenarios.ts
+// Synthetic sleep histories for demos and for checking the nudge logic. Each
+// scenario is a named pattern of bed and wake times with its own defaults;
+// random noise comes from a seeded generator, so the same scenario, options
+// and end day always give the same nights. Nothing here touches storage; the
+// unit tests in tests/ use it as their source of nights.
+
+import type { Night } from "./storage";
+import { DEFAULT_FREE_DAYS } from "./socialJetlag";
+import {
+  ZoneRef,
+  dayOf,
+  deviceZone,
+  epochFromLocal,
+  localDayStart,
+  localMinutes,
+  weekdayOf,
+  zoneOffsetAt,
+} from "./timezone";
+
+export type ScenarioId =
+  | "steady"
+  | "weekend_drifter"
+  | "phase_delay"
+  | "shift_worker"
+  | "chaotic";
+
+export type ScenarioOptions = {
+  days?: number; // wake days to generate, ending on `end`'s day
+  seed?: number;
+  timingNoiseMin?: number; // SD of bedtime jitter
+  durationNoiseMin?: number; // SD of sleep length jitter
+  missingRate?: number; // 0..1, chance a night was not logged
+  napRate?: number; // 0..1, chance of an afternoon nap
+  end?: Date; // nothing is generated after this moment
+  zone?: ZoneRef; // clock the pattern is written for; the device's by default
+};
+
+// One planned episode, in minutes relative to the wake day's local midnight
+type Plan = { bed: number; durationMin: number };
+
+// The noise options, which every scenario has its own defaults for
+export type ScenarioNoise = Required<
+  Pick<
+    ScenarioOptions,
+    "timingNoiseMin" | "durationNoiseMin" | "missingRate" | "napRate"
+  >
+>;
+
+export type Scenario = {
+  id: ScenarioId;
+  label: string;
+  description: string;
+  defaults: ScenarioNoise;
+  // dayIndex counts from the oldest generated day (0); weekday 0 = Sunday
+  plan: (dayIndex: number, weekday: number, rand: () => number) => Plan;
+};
+
+export const SCENARIO_DAYS = { min: 7, max: 90, default: 28 } as const;
+
+// Allowed ranges for the noise options picked on the dashboard (inclusive)
+export const SCENARIO_NOISE_RANGES = {
+  timingNoiseMin: { min: 0, max: 90, step: 5 },
+  durationNoiseMin: { min: 0, max: 90, step: 5 },
+  missingRate: { min: 0, max: 0.5, step: 0.05 },
+  napRate: { min: 0, max: 0.5, step: 0.05 },
+} as const;
+export const DEFAULT_SEED = 1;
+
+const HOUR = 60;
+const MIN_DURATION_MIN = HOUR; // noise never shrinks a sleep below this
+const NAP_WINDOW = { from: 15 * HOUR, to: 17 * HOUR }; // nap start, local
+
+/* ---------------- random numbers ---------------- */
+
+// mulberry32: small, fast and good enough for demo data
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Normally distributed noise (Box-Muller). Always draws two numbers, so
+// turning noise off leaves the rest of the sequence unchanged.
+function gaussian(rand: () => number, sd: number): number {
+  const u = 1 - rand(); // (0, 1], keeps log() finite
+  const v = rand();
+  return sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/* ---------------- scenarios ---------------- */
+
+// Free days are the ones you wake up on (see socialJetlag.ts)
+const isFreeDay = (weekday: number) => DEFAULT_FREE_DAYS.includes(weekday);
+
+export const SCENARIOS: Record<ScenarioId, Scenario> = {
+  steady: {
+    id: "steady",
+    label: "Steady sleeper",
+    description: "In bed around 11 PM and up around 7 AM every day.",
+    defaults: {
+      timingNoiseMin: 15,
+      durationNoiseMin: 15,
+      missingRate: 0,
+      napRate: 0,
+    },
+    plan: () => ({ bed: -1 * HOUR, durationMin: 8 * HOUR }),
+  },
+  weekend_drifter: {
+    id: "weekend_drifter",
+    label: "Weekend drifter",
+    description:
+      "Regular on workdays, then to bed 2.5 h later and sleeping in on " +
+      "weekends.",
+    defaults: {
+      timingNoiseMin: 20,
+      durationNoiseMin: 20,
+      missingRate: 0.05,
+      napRate: 0.05,
+    },
+    plan: (_, weekday) =>
+      isFreeDay(weekday)
+        ? { bed: 1.5 * HOUR, durationMin: 8.5 * HOUR }
+        : { bed: -1 * HOUR, durationMin: 7.5 * HOUR },
+  },
+  phase_delay: {
+    id: "phase_delay",
+    label: "Gradual phase delay",
+    description: "Starts at 11 PM and goes to bed 20 minutes later each day.",
+    defaults: {
+      timingNoiseMin: 10,
+      durationNoiseMin: 15,
+      missingRate: 0,
+      napRate: 0,
+    },
+    plan: (dayIndex) => ({
+      // a full day is lost after 72 days; the clock time carries on
+      bed: -1 * HOUR + ((dayIndex * 20) % (24 * HOUR)),
+      durationMin: 7.5 * HOUR,
+    }),
+  },
+  shift_worker: {
+    id: "shift_worker",
+    label: "Shift worker rotation",
+    description:
+      "Four early shifts, four night shifts (sleeping 8:30 AM to 3:30 PM), " +
+      "then four days off.",
+    defaults: {
+      timingNoiseMin: 20,
+      durationNoiseMin: 25,
+      missingRate: 0.05,
+      napRate: 0.15,
+    },
+    plan: (dayIndex) => {
+      const phase = Math.floor(dayIndex / 4) % 3;
+      if (phase === 0) return { bed: -2 * HOUR, durationMin: 7.5 * HOUR };
+      if (phase === 1) return { bed: 8.5 * HOUR, durationMin: 7 * HOUR };
+      return { bed: 0, durationMin: 8.5 * HOUR };
+    },
+  },
+  chaotic: {
+    id: "chaotic",
+    label: "Chaotic",
+    description:
+      "Bedtimes anywhere from 9 PM to 4 AM, short and long nights, gaps " +
+      "and naps.",
+    defaults: {
+      timingNoiseMin: 30,
+      durationNoiseMin: 45,
+      missingRate: 0.2,
+      napRate: 0.3,
+    },
+    plan: (_, __, rand) => ({
+      bed: -3 * HOUR + rand() * 7 * HOUR,
+      durationMin: 4.5 * HOUR + rand() * 5 * HOUR,
+    }),
+  },
+};
+
+export const SCENARIO_IDS = Object.keys(SCENARIOS) as ScenarioId[];
+
+/* ---------------- generation ---------------- */
+
+// Nights for `days` wake days ending on the day of `end`, oldest first.
+// Episodes that would overlap the one before, or end after `end`, are
+// dropped.
+export function generateNights(
+  id: ScenarioId,
+  opts: ScenarioOptions = {}
+): Night[] {
+  const scenario = SCENARIOS[id];
+  const d = scenario.defaults;
+  const timingNoiseMin = opts.timingNoiseMin ?? d.timingNoiseMin;
+  const durationNoiseMin = opts.durationNoiseMin ?? d.durationNoiseMin;
+  const missingRate = opts.missingRate ?? d.missingRate;
+  const napRate = opts.napRate ?? d.napRate;
+  const days = Math.max(1, Math.round(opts.days ?? SCENARIO_DAYS.default));
+  const end = opts.end ?? new Date();
+  const zone = opts.zone ?? deviceZone(end);
+  const rand = seededRandom(opts.seed ?? DEFAULT_SEED);
+
+  const lastDay = localDayStart(dayOf(localMinutes(end, zone)));
+  const firstDay = lastDay - (days - 1) * 24 * HOUR;
+  const nights: Night[] = [];
+  let lastEnd = -Infinity;
+
+  const push = (bedLocal: number, durationMin: number) => {
+    const startMin = epochFromLocal(Math.round(bedLocal), zone);
+    const endMin = startMin + Math.round(durationMin);
+    if (startMin < lastEnd || endMin * 60000 > end.getTime()) return;
+    lastEnd = endMin;
+    const endDate = new Date(endMin * 60000);
+    nights.push({
+      date: dayOf(localMinutes(endDate, zone)),
+      sleep_start: new Date(startMin * 60000).toISOString(),
+      sleep_end: endDate.toISOString(),
+      source: "seed",
+      ...(zone.tz ? { tz: zone.tz } : {}),
+      utc_offset_min: zoneOffsetAt(zone, endDate),
+    });
+  };
+
+  for (let i = 0; i < days; i++) {
+    const dayStart = firstDay + i * 24 * HOUR;
+    // draw every number each day, so skipping a night never shifts the
+    // randomness of the days after it
+    const plan = scenario.plan(i, weekdayOf(dayStart), rand);
+    const bedNoise = gaussian(rand, timingNoiseMin);
+    const durationNoise = gaussian(rand, durationNoiseMin);
+    const missing = rand() < missingRate;
+    const nap = rand() < napRate;
+    const napStart =
+      NAP_WINDOW.from + rand() * (NAP_WINDOW.to - NAP_WINDOW.from);
+    const napMin = 20 + rand() * 70;
+
+    if (!missing) {
+      push(
+        dayStart + plan.bed + bedNoise,
+        Math.max(MIN_DURATION_MIN, plan.durationMin + durationNoise)
+      );
+    }
+    if (nap) push(dayStart + napStart, napMin);
+  }
+  return nights;
+}
@@ -0,0 +1,210 @@
+// schema.ts
+// Versioned on-disk envelope and the migrations that upgrade older stored data
+// to the current shape. Migrations run one step at a time, in order, when the
+// storage adapter starts.
+
+import type { MoodEntry, Night, Settings } from "./storage";
+import type { TrialDecision } from "./microTrial";
+import type { InboxEntry } from "./nudgeInbox";
+import { deviceZone } from "./timezone";
+
+export const SCHEMA_VERSION = 5;
+
+export type StoredDoc = {
+  schemaVersion: number;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  nights: Night[];
+  moods: MoodEntry[];
+  decisions: TrialDecision[]; // trial decision log (see microTrial.ts)
+  inbox: InboxEntry[]; // nudges sent (see nudgeInbox.ts)
+  settings: Settings;
+};
+
+// The envelope as versions 1 to 3 left it, and as version 4 added to it
+type EnvelopeV1 = Omit<StoredDoc, "decisions" | "inbox">;
+type EnvelopeV4 = EnvelopeV1 & { decisions: TrialDecision[] };
+
+export type Migration = {
+  to: number; // version produced by this step
+  description: string;
+  up: (doc: unknown, now: string) => unknown;
+};
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaError";
+  }
+}
+
+export function newId(): string {
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+export function emptyDoc(now = new Date().toISOString()): StoredDoc {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    nights: [],
+    moods: [],
+    decisions: [],
+    inbox: [],
+    settings: {},
+  };
+}
+
+/* ---------------- shapes ---------------- */
+
+type Fields = Record<string, unknown>;
+
+const isFields = (v: unknown): v is Fields =>
+  v != null && typeof v === "object" && !Array.isArray(v);
+
+// A stored list; missing is empty, anything else but a list of records is
+// refused rather than guessed at
+function records<T>(value: unknown, what: string): T[] {
+  if (value == null) return [];
+  if (!Array.isArray(value) || !value.every(isFields)) {
+    throw new SchemaError(`Stored ${what} are not a list of records.`);
+  }
+  return value as T[];
+}
+
+// The version 1 envelope with every field present. Fields added by later
+// versions are passed through for their own steps to check.
+function envelope(doc: unknown, now: string): Fields & EnvelopeV1 {
+  if (!isFields(doc)) throw new SchemaError("Stored data is not an object.");
+  return {
+    ...doc,
+    schemaVersion: Number(doc.schemaVersion ?? 1),
+    createdAt: typeof doc.createdAt === "string" ? doc.createdAt : now,
+    updatedAt: typeof doc.updatedAt === "string" ? doc.updatedAt : now,
+    nights: records<Night>(doc.nights, "nights"),
+    moods: records<MoodEntry>(doc.moods, "mood check-ins"),
+    settings: isFields(doc.settings) ? (doc.settings as Settings) : {},
+  };
+}
+
+function current(doc: unknown, now: string): StoredDoc {
+  const d = envelope(doc, now);
+  return {
+    schemaVersion: d.schemaVersion,
+    createdAt: d.createdAt,
+    updatedAt: d.updatedAt,
+    nights: d.nights,
+    moods: d.moods,
+    decisions: records<TrialDecision>(d.decisions, "trial decisions"),
+    inbox: records<InboxEntry>(d.inbox, "inbox entries"),
+    settings: d.settings,
+  };
+}
+
+/* ---------------- migrations ---------------- */
+
+export const MIGRATIONS: Migration[] = [
+  {
+    to: 1,
+    description: "Wrap the bare Night[] array in a versioned envelope",
+    up: (nights, now): EnvelopeV1 => ({
+      schemaVersion: 1,
+      createdAt: now,
+      updatedAt: now,
+      nights: records<Night>(nights, "nights"),
+      moods: [],
+      settings: {},
+    }),
+  },
+  {
+    to: 2,
+    description: "Give every night and mood entry a stable id",
+    up: (doc, now): EnvelopeV1 => {
+      const d = envelope(doc, now);
+      return {
+        ...d,
+        schemaVersion: 2,
+        nights: d.nights.map((n) => (n.id ? n : { ...n, id: newId() })),
+        moods: d.moods.map((m) => (m.id ? m : { ...m, id: newId() })),
+      };
+    },
+  },
+  {
+    to: 3,
+    description:
+      "Record the time zone of every night; older nights get the device zone",
+    up: (doc, now): EnvelopeV1 => {
+      const d = envelope(doc, now);
+      return {
+        ...d,
+        schemaVersion: 3,
+        nights: d.nights.map((n) =>
+          n.tz || n.utc_offset_min != null
+            ? n
+            : { ...n, ...deviceZone(new Date(n.sleep_end)) }
+        ),
+      };
+    },
+  },
+  {
+    to: 4,
+    description: "Add the trial decision log",
+    up: (doc, now): EnvelopeV4 => {
+      const d = envelope(doc, now);
+      return {
+        ...d,
+        schemaVersion: 4,
+        decisions: records<TrialDecision>(d.decisions, "trial decisions"),
+      };
+    },
+  },
+  {
+    to: 5,
+    description: "Add the nudge inbox",
+    up: (doc, now): StoredDoc => ({
+      ...current(doc, now),
+      schemaVersion: 5,
+    }),
+  },
+];
+
+// Before envelopes existed the store held a plain Night[] (version 0)
+export function detectVersion(raw: unknown): number {
+  if (Array.isArray(raw)) return 0;
+  if (raw && typeof raw === "object") {
+    const v = (raw as { schemaVersion?: unknown }).schemaVersion;
+    if (typeof v === "number" && Number.isInteger(v) && v >= 0) return v;
+  }
+  throw new SchemaError("Stored data has no recognizable schema version.");
+}
+
+// Upgrade whatever was stored to the current schema. `raw` is the parsed
+// document, or null when nothing has been stored yet.
+export function migrate(
+  raw: unknown,
+  now = new Date().toISOString()
+): { doc: StoredDoc; from: number; applied: Migration[] } {
+  if (raw == null) {
+    return { doc: emptyDoc(now), from: SCHEMA_VERSION, applied: [] };
+  }
+
+  const from = detectVersion(raw);
+  if (from > SCHEMA_VERSION) {
+    throw new SchemaError(
+      `Stored data uses schema v${from}, but this app only understands up to v${SCHEMA_VERSION}. Update the app before opening this data.`
+    );
+  }
+
+  let doc: unknown = raw;
+  const applied: Migration[] = [];
+  for (const m of MIGRATIONS) {
+    if (m.to <= from) continue;
+    doc = m.up(doc, now);
+    applied.push(m);
+  }
+
+  // even a current document may have lost fields; fill them in
+  const result = current(doc, now);
+  if (applied.length > 0) result.updatedAt = now;
+  return { doc: result, from, applied };
+}
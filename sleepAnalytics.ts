@@ -0,0 +1,591 @@
+// sleepAnalytics.ts
+// UI-free sleep analytics: nights in, SleepSummary out. Nothing here imports
+// React Native, so the same computation can run in plain Node.
+
+import type { DerivedNight, EpisodeKind, Night } from "./storage";
+import type { QualityReport } from "./dataQuality";
+import {
+  clockOf,
+  dayOf,
+  deviceZone,
+  localDayStart,
+  localMinutes,
+} from "./timezone";
+
+/* ---------------- defaults ---------------- */
+
+export const BASELINE_WINDOW_DAYS = 7;
+export const DRIFT_THRESHOLD_MIN = 90; // 90+ min away from baseline = drift
+export const MIN_COVERAGE = 3; // nights needed before we judge risk
+export const SRI_WINDOW_DAYS = 14;
+export const SRI_MIN_DAY_PAIRS = 5; // consecutive observed day pairs for a usable SRI
+
+// Unflagged episodes shorter than this are naps when their midpoint falls in
+// the daytime window below; longer ones are always main sleep.
+export const NAP_MAX_MIN = 3 * 60;
+export const NAP_DAYTIME = { from: 10 * 60, to: 20 * 60 }; // local clock
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export type SummaryOptions = {
+  windowDays?: number;
+  driftThresholdMin?: number;
+  minCoverage?: number;
+  excludeFlagged?: boolean; // leave nights with data problems out
+};
+
+// Allowed ranges for the user-tunable options (inclusive)
+export const SUMMARY_OPTION_RANGES = {
+  windowDays: { min: 3, max: 28, step: 1 },
+  driftThresholdMin: { min: 30, max: 360, step: 15 },
+  minCoverage: { min: 1, max: 28, step: 1 },
+} as const;
+
+export const clampTo = (
+  value: number | undefined,
+  fallback: number,
+  range: { min: number; max: number }
+) => {
+  if (value == null || !Number.isFinite(value)) return fallback;
+  return Math.min(range.max, Math.max(range.min, Math.round(value)));
+};
+
+// Fill in defaults and clamp to the allowed ranges; minimum coverage can
+// never exceed the window it is counted in.
+export function resolveSummaryOptions(
+  opts: SummaryOptions = {}
+): Required<SummaryOptions> {
+  const r = SUMMARY_OPTION_RANGES;
+  const windowDays = clampTo(
+    opts.windowDays,
+    BASELINE_WINDOW_DAYS,
+    r.windowDays
+  );
+  return {
+    windowDays,
+    driftThresholdMin: clampTo(
+      opts.driftThresholdMin,
+      DRIFT_THRESHOLD_MIN,
+      r.driftThresholdMin
+    ),
+    minCoverage: Math.min(
+      windowDays,
+      clampTo(opts.minCoverage, MIN_COVERAGE, r.minCoverage)
+    ),
+    excludeFlagged: opts.excludeFlagged ?? false,
+  };
+}
+
+// Tiers scale with the drift threshold: under half of it is on track, then
+// slight up to the threshold, moderate up to twice it, high beyond. A drift
+// kept up over the last RECENT_NIGHTS nights counts one tier higher; drifting
+// earlier never goes past moderate.
+export type RiskTier =
+  | "insufficient"
+  | "on_track"
+  | "slight"
+  | "moderate"
+  | "high";
+export type DriftDirection = "later" | "earlier";
+
+export const SLIGHT_DRIFT_FRACTION = 0.5;
+export const HIGH_DRIFT_MULTIPLE = 2;
+export const RECENT_NIGHTS = 3;
+
+const TIER_ORDER: Exclude<RiskTier, "insufficient">[] = [
+  "on_track",
+  "slight",
+  "moderate",
+  "high",
+];
+
+// All sleep that ended on one local day
+export type DaySleep = {
+  day: string; // YYYY-MM-DD
+  episodes: DerivedNight[]; // most recent first
+  mainSleepMin: number;
+  napMin: number;
+  totalSleepMin: number; // main sleep plus naps, diary-adjusted
+};
+
+export type SleepSummary = {
+  nights: DerivedNight[]; // every episode, most recent first
+  days: DaySleep[]; // most recent first
+  windowDays: number;
+  driftThresholdMin: number;
+  minCoverage: number;
+  excludeFlagged: boolean;
+  windowStart: string | null; // YYYY-MM-DD, first day of the baseline window
+  baseline: DerivedNight[]; // main sleeps the baseline is computed from
+  coverage: number; // distinct days in the window with a main sleep
+  excluded: number; // flagged main sleeps in the window left out
+  quality: QualityReport;
+  baselineMid: number | null; // clock time, minutes after local midnight
+  recentLateness: number; // minutes; positive = last night later than baseline
+  direction: DriftDirection | null; // of last night, null when on track
+  // nights in a row, up to last night, drifting that way (≤ RECENT_NIGHTS)
+  driftedNights: number;
+  regularityLoss: number; // minutes; sum of |deviation| over the window
+  drift: boolean;
+  risk: RiskTier;
+  reasons: string[]; // plain-language explanation of the risk tier
+  sri: SriResult;
+};
+
+export type SriResult = {
+  sri: number | null; // -100..100; 100 = identical sleep/wake timing every day
+  windowDays: number;
+  windowStart: string | null; // YYYY-MM-DD, first local day of the window
+  daysWithData: number;
+  dayPairs: number; // consecutive observed days that were compared
+  minDayPairs: number;
+  sufficient: boolean;
+};
+
+/* ---------------- time helpers ---------------- */
+
+export const toMinutes = (d: Date) => Math.floor(d.getTime() / 60000);
+export const fromISO = (s: string) => new Date(s);
+
+// Device clock time of an epoch minute, as minutes after midnight (0..1439).
+// Nights use their own zone instead (DerivedNight.midsleep_clock).
+export const minuteOfDay = (epochMin: number) => {
+  const d = new Date(epochMin * 60000);
+  return d.getHours() * 60 + d.getMinutes();
+};
+
+// Signed shortest distance from b to a around the 24h clock, in [-720, 720).
+// Positive means a is later than b.
+export const clockDiff = (a: number, b: number) =>
+  ((((a - b + MINUTES_PER_DAY / 2) % MINUTES_PER_DAY) + MINUTES_PER_DAY) %
+    MINUTES_PER_DAY) -
+  MINUTES_PER_DAY / 2;
+
+// Circular mean of clock times, so 23:30 and 00:30 average to 00:00 rather
+// than noon. Null when the times cancel out and there is no meaningful mean.
+export function circularMeanMinuteOfDay(mins: number[]): number | null {
+  if (mins.length === 0) return null;
+  let x = 0;
+  let y = 0;
+  for (const m of mins) {
+    const angle = (m / MINUTES_PER_DAY) * 2 * Math.PI;
+    x += Math.cos(angle);
+    y += Math.sin(angle);
+  }
+  if (Math.hypot(x, y) / mins.length < 1e-6) return null;
+  const angle = Math.atan2(y, x);
+  const m = Math.round((angle / (2 * Math.PI)) * MINUTES_PER_DAY);
+  return ((m % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+// First epoch minute at least 12h after `afterEpochMin` whose local clock
+// reads `clockMin`, i.e. the next night at that time of day.
+export function nextEpochAtClock(
+  clockMin: number,
+  afterEpochMin: number
+): number {
+  const from = afterEpochMin + 12 * 60;
+  const d = new Date(from * 60000);
+  d.setHours(0, 0, 0, 0);
+  let candidate = toMinutes(d) + clockMin;
+  while (candidate < from) candidate += MINUTES_PER_DAY;
+  return candidate;
+}
+
+/* ---------------- formatting ---------------- */
+
+export const fmtHM = (m: number | null) => {
+  if (m == null) return "n/a";
+  const h24 = Math.floor((m / 60) % 24);
+  const mm = Math.abs(Math.floor(m % 60));
+  const ampm = h24 >= 12 ? "PM" : "AM";
+  const h = ((h24 + 11) % 12) + 1;
+  return `${h}:${mm.toString().padStart(2, "0")} ${ampm}`;
+};
+
+export const fmtMinutesAsHours = (m: number | null) => {
+  if (m == null) return "n/a";
+  const hours = m / 60;
+  const absHours = Math.abs(hours);
+  const rounded = Math.round(absHours * 10) / 10;
+  return `${rounded.toFixed(1)} h`;
+};
+
+/* ---------------- nights ---------------- */
+
+// Stable key for a night, with or without a stored id
+export const nightKey = (n: Night) =>
+  n.id ?? `${n.sleep_start}|${n.sleep_end}`;
+
+export function derive(n: Night): DerivedNight {
+  const start = fromISO(n.sleep_start);
+  const end = fromISO(n.sleep_end);
+  const startMin = toMinutes(start);
+  const endMin = toMinutes(end);
+  const duration_min = Math.max(0, endMin - startMin);
+  const midsleep_min_epoch = startMin + Math.floor(duration_min / 2);
+
+  // Diary-based totals: TST = sleep period - latency - wake after onset,
+  // TIB = in bed to out of bed, SE = TST / TIB
+  const d = n.diary;
+  const total_sleep_min = Math.max(
+    0,
+    duration_min - (d?.sol_min ?? 0) - (d?.waso_min ?? 0)
+  );
+  const inBedMin = d?.in_bed_at
+    ? Math.min(startMin, toMinutes(fromISO(d.in_bed_at)))
+    : startMin;
+  const outOfBedMin = d?.out_of_bed_at
+    ? Math.max(endMin, toMinutes(fromISO(d.out_of_bed_at)))
+    : endMin;
+  const time_in_bed_min = Math.max(0, outOfBedMin - inBedMin);
+  const hasDiary =
+    d != null &&
+    (d.in_bed_at != null ||
+      d.out_of_bed_at != null ||
+      d.sol_min != null ||
+      d.waso_min != null);
+  const sleep_efficiency =
+    hasDiary && time_in_bed_min > 0
+      ? Math.round((total_sleep_min / time_in_bed_min) * 100)
+      : null;
+
+  // clock times in the zone the night was slept in, so DST changes and
+  // travel do not read as drift
+  const start_local_min = localMinutes(start, n);
+  const end_local_min = localMinutes(end, n);
+  const midsleep_clock = clockOf(
+    localMinutes(new Date(midsleep_min_epoch * 60000), n)
+  );
+
+  const kind: EpisodeKind =
+    n.episode ??
+    (duration_min < NAP_MAX_MIN &&
+    midsleep_clock >= NAP_DAYTIME.from &&
+    midsleep_clock < NAP_DAYTIME.to
+      ? "nap"
+      : "main");
+
+  return {
+    ...n,
+    duration_min,
+    midsleep_min_epoch,
+    total_sleep_min,
+    time_in_bed_min,
+    sleep_efficiency,
+    kind,
+    start_local_min,
+    end_local_min,
+    midsleep_clock,
+    wake_day: dayOf(end_local_min),
+  };
+}
+
+// Derive every night, most recent first. A day keeps one classified main
+// sleep, its longest; other unflagged "main" episodes that day become naps.
+export function deriveAll(nights: Night[]): DerivedNight[] {
+  const derived = nights.map(derive);
+
+  const longestMain = new Map<string, DerivedNight>();
+  for (const d of derived) {
+    if (d.kind !== "main") continue;
+    const best = longestMain.get(d.wake_day);
+    if (!best || d.duration_min > best.duration_min) {
+      longestMain.set(d.wake_day, d);
+    }
+  }
+
+  return derived
+    .map((d) =>
+      d.kind === "main" && !d.episode && longestMain.get(d.wake_day) !== d
+        ? { ...d, kind: "nap" as const }
+        : d
+    )
+    .sort((a, b) => b.midsleep_min_epoch - a.midsleep_min_epoch);
+}
+
+// Group episodes by the day they ended on, most recent day first
+export function dailySleep(derived: DerivedNight[]): DaySleep[] {
+  const byDay = new Map<string, DerivedNight[]>();
+  for (const d of derived) {
+    byDay.set(d.wake_day, [...(byDay.get(d.wake_day) ?? []), d]);
+  }
+  const sum = (ds: DerivedNight[]) =>
+    ds.reduce((a, d) => a + d.total_sleep_min, 0);
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => (a < b ? 1 : a > b ? -1 : 0))
+    .map(([day, episodes]) => {
+      const mainSleepMin = sum(episodes.filter((d) => d.kind === "main"));
+      const napMin = sum(episodes.filter((d) => d.kind === "nap"));
+      return {
+        day,
+        episodes: [...episodes].sort(
+          (a, b) => b.midsleep_min_epoch - a.midsleep_min_epoch
+        ),
+        mainSleepMin,
+        napMin,
+        totalSleepMin: mainSleepMin + napMin,
+      };
+    });
+}
+
+// Create a synthetic night centered on a given midsleep with offset
+export function nightFromMidsleep(
+  midsleepMinEpoch: number,
+  offsetMinutes: number
+): Night {
+  const midsleep = new Date((midsleepMinEpoch + offsetMinutes) * 60000);
+  const start = new Date(midsleep.getTime() - 4 * 60 * 60000);
+  const end = new Date(midsleep.getTime() + 4 * 60 * 60000);
+  const zone = deviceZone(end);
+  return {
+    date: dayOf(localMinutes(end, zone)), // local wake day
+    sleep_start: start.toISOString(),
+    sleep_end: end.toISOString(),
+    ...zone,
+  };
+}
+
+/* ---------------- sleep regularity index ---------------- */
+
+// Sleep Regularity Index (Phillips et al., 2017): the probability that any
+// two time points 24h apart are in the same sleep/wake state, rescaled to
+// -100..100. Computed on a one-minute grid over the last `windowDays` local
+// days ending on the day of the most recent wake. Only pairs of consecutive
+// days that both have a logged wake are compared, and only up to that last
+// wake, so missing time does not count as "awake".
+export function sleepRegularityIndex(
+  derived: DerivedNight[],
+  opts: { windowDays?: number; minDayPairs?: number } = {}
+): SriResult {
+  const windowDays = opts.windowDays ?? SRI_WINDOW_DAYS;
+  const minDayPairs = opts.minDayPairs ?? SRI_MIN_DAY_PAIRS;
+  const empty: SriResult = {
+    sri: null,
+    windowDays,
+    windowStart: null,
+    daysWithData: 0,
+    dayPairs: 0,
+    minDayPairs,
+    sufficient: false,
+  };
+
+  const episodes = derived.filter((d) => d.duration_min > 0);
+  if (episodes.length === 0) return empty;
+
+  // the grid runs on each night's own wall clock, so a flight or a DST
+  // change shifts nothing that was not shifted on the clock
+  const lastWake = Math.max(...episodes.map((d) => d.end_local_min));
+  const gridStart =
+    (Math.floor(lastWake / MINUTES_PER_DAY) - (windowDays - 1)) *
+    MINUTES_PER_DAY;
+  const gridLen = windowDays * MINUTES_PER_DAY;
+  const dataEnd = lastWake - gridStart;
+
+  const asleep = new Uint8Array(gridLen);
+  const observed = new Array<boolean>(windowDays).fill(false);
+
+  for (const d of episodes) {
+    const start = d.start_local_min - gridStart;
+    const end = d.end_local_min - gridStart;
+    for (let m = Math.max(0, start); m < Math.min(gridLen, end); m++) {
+      asleep[m] = 1;
+    }
+    const wakeDay = Math.floor(end / MINUTES_PER_DAY);
+    if (wakeDay >= 0 && wakeDay < windowDays) observed[wakeDay] = true;
+  }
+
+  let matches = 0;
+  let total = 0;
+  let dayPairs = 0;
+  for (let day = 0; day < windowDays - 1; day++) {
+    if (!observed[day] || !observed[day + 1]) continue;
+    dayPairs++;
+    const base = day * MINUTES_PER_DAY;
+    for (let m = base; m < base + MINUTES_PER_DAY; m++) {
+      // nothing is known after the last wake, so stop comparing there
+      if (m + MINUTES_PER_DAY >= dataEnd) break;
+      total++;
+      if (asleep[m] === asleep[m + MINUTES_PER_DAY]) matches++;
+    }
+  }
+
+  return {
+    sri: total > 0 ? Math.round(-100 + (200 * matches) / total) : null,
+    windowDays,
+    windowStart: dayOf(gridStart),
+    daysWithData: observed.filter(Boolean).length,
+    dayPairs,
+    minDayPairs,
+    sufficient: dayPairs >= minDayPairs,
+  };
+}
+
+/* ---------------- summary ---------------- */
+
+const NO_ISSUES: QualityReport = {
+  flags: new Map(),
+  gaps: [],
+  excludable: new Set(),
+};
+
+// `derived` must be most recent first (see deriveAll). `quality` comes from
+// checkQuality in dataQuality.ts; without it every night counts.
+export function summarize(
+  derived: DerivedNight[],
+  opts: SummaryOptions = {},
+  quality: QualityReport = NO_ISSUES
+): SleepSummary {
+  const { windowDays, driftThresholdMin, minCoverage, excludeFlagged } =
+    resolveSummaryOptions(opts);
+  const flagged = (d: DerivedNight) => quality.excludable.has(nightKey(d));
+  const left = (d: DerivedNight) => excludeFlagged && flagged(d);
+
+  // The window is the last `windowDays` calendar days up to the most recent
+  // main sleep; naps never move the baseline
+  const mains = derived.filter((d) => d.kind === "main");
+  const windowStart =
+    mains.length > 0
+      ? dayOf(
+          localDayStart(mains[0].wake_day) - (windowDays - 1) * MINUTES_PER_DAY
+        )
+      : null;
+  const inWindow = mains.filter(
+    (d) => windowStart != null && d.wake_day >= windowStart
+  );
+  const lastN = inWindow.filter((d) => !left(d));
+  const excluded = inWindow.length - lastN.length;
+  const coverage = new Set(lastN.map((d) => d.wake_day)).size;
+  const clockMids = lastN.map((d) => d.midsleep_clock);
+
+  // baseline is a clock time (minutes after midnight), not an epoch value
+  const baselineMid = circularMeanMinuteOfDay(clockMids);
+
+  const recentLateness =
+    baselineMid != null && coverage > 0
+      ? clockDiff(clockMids[0], baselineMid)
+      : 0;
+
+  const regularityLoss =
+    baselineMid != null && coverage > 1
+      ? clockMids
+          .map((m) => Math.abs(clockDiff(m, baselineMid)))
+          .reduce((a, b) => a + b, 0)
+      : 0;
+
+  const drift =
+    baselineMid != null && Math.abs(recentLateness) >= driftThresholdMin;
+
+  const slightMin = driftThresholdMin * SLIGHT_DRIFT_FRACTION;
+  const direction: DriftDirection | null =
+    baselineMid == null || Math.abs(recentLateness) < slightMin
+      ? null
+      : recentLateness > 0
+      ? "later"
+      : "earlier";
+  let driftedNights = 0;
+  for (const m of direction == null ? [] : clockMids.slice(0, RECENT_NIGHTS)) {
+    const diff = clockDiff(m, baselineMid!);
+    if ((direction === "later" ? diff : -diff) < slightMin) break;
+    driftedNights++;
+  }
+
+  const risk: RiskTier =
+    coverage < minCoverage
+      ? "insufficient"
+      : riskTier(recentLateness, driftedNights, driftThresholdMin);
+
+  const reasons: string[] = [];
+  if (risk === "insufficient") {
+    reasons.push(
+      `${coverage} of ${windowDays} days have a night logged; need at least ${minCoverage} to compare against a baseline.`
+    );
+  } else {
+    reasons.push(
+      `Last night's midpoint was ${fmtMinutesAsHours(recentLateness)} ${
+        recentLateness >= 0 ? "later" : "earlier"
+      } than the baseline of ${fmtHM(baselineMid)}.`
+    );
+    reasons.push(
+      drift
+        ? `That is at or beyond the ${fmtMinutesAsHours(
+            driftThresholdMin
+          )} drift threshold.`
+        : `That is within the ${fmtMinutesAsHours(
+            driftThresholdMin
+          )} drift threshold.`
+    );
+    if (driftedNights >= RECENT_NIGHTS) {
+      reasons.push(
+        `The last ${RECENT_NIGHTS} nights all ran ${direction} than usual.`
+      );
+    }
+  }
+  const flaggedInWindow = inWindow.filter(flagged).length;
+  if (excluded > 0) {
+    reasons.push(
+      `${excluded} flagged night${
+        excluded === 1 ? " was" : "s were"
+      } left out of the baseline.`
+    );
+  } else if (flaggedInWindow > 0) {
+    reasons.push(
+      `${flaggedInWindow} night${
+        flaggedInWindow === 1 ? " has" : "s have"
+      } data problems and still count towards the baseline.`
+    );
+  }
+
+  return {
+    nights: derived,
+    days: dailySleep(derived),
+    windowDays,
+    driftThresholdMin,
+    minCoverage,
+    excludeFlagged,
+    windowStart,
+    baseline: lastN,
+    coverage,
+    excluded,
+    quality,
+    baselineMid,
+    recentLateness,
+    direction,
+    driftedNights,
+    regularityLoss,
+    drift,
+    risk,
+    reasons,
+    sri: sleepRegularityIndex(derived.filter((d) => !left(d))),
+  };
+}
+
+// Tier for last night's deviation from the baseline (see RiskTier)
+export function riskTier(
+  lateness: number,
+  driftedNights: number,
+  driftThresholdMin = DRIFT_THRESHOLD_MIN
+): Exclude<RiskTier, "insufficient"> {
+  const off = Math.abs(lateness);
+  let i =
+    off < driftThresholdMin * SLIGHT_DRIFT_FRACTION
+      ? 0
+      : off < driftThresholdMin
+      ? 1
+      : off < driftThresholdMin * HIGH_DRIFT_MULTIPLE
+      ? 2
+      : 3;
+  if (i > 0 && driftedNights >= RECENT_NIGHTS) i++;
+  if (lateness < 0) i = Math.min(i, 2);
+  return TIER_ORDER[Math.min(i, TIER_ORDER.length - 1)];
+}
+
+// Nights in, summary out
+export function analyzeSleep(
+  nights: Night[],
+  opts: SummaryOptions = {}
+): SleepSummary {
+  return summarize(deriveAll(nights), opts);
+}
+
@@ -0,0 +1,60 @@
+// sleepDiary.ts
+// Consensus Sleep Diary fields stored on a night (see SleepDiary in
+// storage.ts): their flat column names for exports and imports, and the
+// checks values read back from a file must pass.
+
+import type { SleepDiary } from "./storage";
+
+export const DIARY_COLUMNS = [
+  "in_bed_at",
+  "sol_min",
+  "awakenings",
+  "waso_min",
+  "out_of_bed_at",
+  "quality",
+] as const satisfies readonly (keyof SleepDiary)[];
+
+export const QUALITY_LABELS: Record<NonNullable<SleepDiary["quality"]>, string> =
+  {
+    1: "Very poor",
+    2: "Poor",
+    3: "Fair",
+    4: "Good",
+    5: "Very good",
+  };
+
+const isTime = (v: unknown): v is string =>
+  typeof v === "string" && v !== "" && !Number.isNaN(Date.parse(v));
+
+const count = (v: unknown): number | undefined => {
+  if (v == null || v === "") return undefined;
+  const n = Number(v);
+  return Number.isInteger(n) && n >= 0 ? n : undefined;
+};
+
+// Keep only well-formed answers from an imported record (a JSON object or a
+// CSV row keyed by column). Returns undefined when nothing is left.
+export function cleanDiary(raw: unknown): SleepDiary | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const r = raw as Record<string, unknown>;
+  const quality = count(r.quality);
+
+  const diary: SleepDiary = {
+    in_bed_at: isTime(r.in_bed_at)
+      ? new Date(r.in_bed_at).toISOString()
+      : undefined,
+    sol_min: count(r.sol_min),
+    awakenings: count(r.awakenings),
+    waso_min: count(r.waso_min),
+    out_of_bed_at: isTime(r.out_of_bed_at)
+      ? new Date(r.out_of_bed_at).toISOString()
+      : undefined,
+    quality:
+      quality != null && quality >= 1 && quality <= 5
+        ? (quality as SleepDiary["quality"])
+        : undefined,
+  };
+
+  const answered = Object.entries(diary).filter(([, v]) => v !== undefined);
+  return answered.length > 0 ? Object.fromEntries(answered) : undefined;
+}
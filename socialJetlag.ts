@@ -0,0 +1,104 @@
+// socialJetlag.ts
+// Workday vs free-day breakdown. A night belongs to the weekday it ends on
+// (the wake day), so with the default free days a Friday-night sleep that
+// ends on Saturday morning counts as a free-day night.
+
+import type { DerivedNight } from "./storage";
+import {
+  MINUTES_PER_DAY,
+  circularMeanMinuteOfDay,
+  clockDiff,
+  fromISO,
+  toMinutes,
+} from "./sleepAnalytics";
+import { clockOf, weekdayOf } from "./timezone";
+
+export const DEFAULT_FREE_DAYS = [0, 6]; // Sunday and Saturday wake days
+export const JETLAG_WINDOW_DAYS = 28;
+
+export const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export type WeekdayStats = {
+  weekday: number; // 0 = Sunday
+  isFreeDay: boolean;
+  nights: number;
+  bedtime: number | null; // clock minutes, circular mean
+  wake: number | null; // clock minutes, circular mean
+  durationMin: number | null;
+};
+
+export type SocialJetlagReport = {
+  windowDays: number;
+  freeDays: number[];
+  workdayNights: number;
+  freeDayNights: number;
+  workdayMid: number | null; // clock minutes
+  freeDayMid: number | null; // clock minutes
+  // free-day minus workday midsleep; positive = later on free days.
+  // Null unless both groups have at least one night.
+  socialJetlagMin: number | null;
+  byWeekday: WeekdayStats[]; // indexed by weekday, Sunday first
+};
+
+// weekday on the wall clock where the night was slept
+const wakeWeekday = (d: DerivedNight) => weekdayOf(d.end_local_min);
+
+const mean = (xs: number[]) =>
+  xs.length > 0 ? Math.round(xs.reduce((a, b) => a + b, 0) / xs.length) : null;
+
+export function socialJetlag(
+  derived: DerivedNight[],
+  freeDays: number[] = DEFAULT_FREE_DAYS,
+  windowDays = JETLAG_WINDOW_DAYS
+): SocialJetlagReport {
+  // naps would pull the midsleep towards the afternoon
+  const episodes = derived.filter(
+    (d) => d.duration_min > 0 && d.kind === "main"
+  );
+  const latest = Math.max(
+    0,
+    ...episodes.map((d) => toMinutes(fromISO(d.sleep_end)))
+  );
+  const recent = episodes.filter(
+    (d) => latest - toMinutes(fromISO(d.sleep_end)) < windowDays * MINUTES_PER_DAY
+  );
+
+  const isFree = (d: DerivedNight) => freeDays.includes(wakeWeekday(d));
+  const mids = (ds: DerivedNight[]) =>
+    ds.map((d) => d.midsleep_clock);
+
+  const work = recent.filter((d) => !isFree(d));
+  const free = recent.filter(isFree);
+  const workdayMid = circularMeanMinuteOfDay(mids(work));
+  const freeDayMid = circularMeanMinuteOfDay(mids(free));
+
+  const byWeekday = WEEKDAY_SHORT.map((_, weekday): WeekdayStats => {
+    const ds = recent.filter((d) => wakeWeekday(d) === weekday);
+    return {
+      weekday,
+      isFreeDay: freeDays.includes(weekday),
+      nights: ds.length,
+      bedtime: circularMeanMinuteOfDay(
+        ds.map((d) => clockOf(d.start_local_min))
+      ),
+      wake: circularMeanMinuteOfDay(
+        ds.map((d) => clockOf(d.end_local_min))
+      ),
+      durationMin: mean(ds.map((d) => d.duration_min)),
+    };
+  });
+
+  return {
+    windowDays,
+    freeDays: [...freeDays].sort((a, b) => a - b),
+    workdayNights: work.length,
+    freeDayNights: free.length,
+    workdayMid,
+    freeDayMid,
+    socialJetlagMin:
+      workdayMid != null && freeDayMid != null
+        ? clockDiff(freeDayMid, workdayMid)
+        : null,
+    byWeekday,
+  };
+}
@@ -0,0 +1,288 @@
+// sqliteAdapter.native.ts
+// SQLite-backed adapter for long histories: one row per night, so adding or
+// removing a night touches a single row instead of rewriting the whole list.
+// Rows hold the record as JSON; the envelope fields live in the meta table.
+
+import * as SQLite from "expo-sqlite";
+import { StoredDoc, migrate, newId } from "./schema";
+import type { MoodEntry, Night, StorageAdapter } from "./storage";
+import type { TrialDecision } from "./microTrial";
+import type { InboxEntry } from "./nudgeInbox";
+
+const DB_NAME = "nudgekit.db";
+
+type DataRow = { data: string };
+type MetaRow = { key: string; value: string };
+
+export async function openSqliteAdapter(): Promise<StorageAdapter | null> {
+  const db = await SQLite.openDatabaseAsync(DB_NAME);
+
+  const setMeta = (key: string, value: string) =>
+    db.runAsync(
+      `INSERT INTO meta (key, value) VALUES (?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+      [key, value]
+    );
+
+  const touch = () => setMeta("updated_at", new Date().toISOString());
+
+  const upsert = (n: Night) =>
+    db.runAsync(
+      `INSERT INTO nights (id, date, sleep_start, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         date = excluded.date,
+         sleep_start = excluded.sleep_start,
+         data = excluded.data`,
+      [n.id!, n.date, n.sleep_start, JSON.stringify(n)]
+    );
+
+  const insertMood = (m: MoodEntry) =>
+    db.runAsync(
+      `INSERT INTO moods (id, at, data) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET at = excluded.at, data = excluded.data`,
+      [m.id, m.at, JSON.stringify(m)]
+    );
+
+  const insertDecision = (d: TrialDecision) =>
+    db.runAsync(
+      `INSERT INTO decisions (id, at, data) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET at = excluded.at, data = excluded.data`,
+      [d.id, d.at, JSON.stringify(d)]
+    );
+
+  const insertEntry = (e: InboxEntry) =>
+    db.runAsync(
+      `INSERT INTO inbox (id, sent_at, data) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         sent_at = excluded.sent_at,
+         data = excluded.data`,
+      [e.id, e.sentAt, JSON.stringify(e)]
+    );
+
+  const readMeta = async () => {
+    const meta: Record<string, string> = {};
+    for (const row of await db.getAllAsync<MetaRow>("SELECT * FROM meta")) {
+      meta[row.key] = row.value;
+    }
+    return meta;
+  };
+
+  const readAll = async (
+    table: "nights" | "moods" | "decisions" | "inbox"
+  ) => {
+    const rows = await db.getAllAsync<DataRow>(`SELECT data FROM ${table}`);
+    return rows.map((r) => JSON.parse(r.data));
+  };
+
+  // Rewrites every table from a migrated document
+  const writeDoc = (doc: StoredDoc) =>
+    db.withTransactionAsync(async () => {
+      await db.runAsync("DELETE FROM nights");
+      await db.runAsync("DELETE FROM moods");
+      await db.runAsync("DELETE FROM decisions");
+      await db.runAsync("DELETE FROM inbox");
+      for (const n of doc.nights) await upsert(n);
+      for (const m of doc.moods) await insertMood(m);
+      for (const d of doc.decisions) await insertDecision(d);
+      for (const e of doc.inbox) await insertEntry(e);
+      await setMeta("schema_version", String(doc.schemaVersion));
+      await setMeta("created_at", doc.createdAt);
+      await setMeta("updated_at", doc.updatedAt);
+      await setMeta("settings", JSON.stringify(doc.settings));
+    });
+
+  return {
+    kind: "sqlite",
+
+    async init() {
+      await db.execAsync(`
+        PRAGMA journal_mode = WAL;
+        CREATE TABLE IF NOT EXISTS nights (
+          id TEXT PRIMARY KEY NOT NULL,
+          date TEXT NOT NULL,
+          sleep_start TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS nights_by_date ON nights (date);
+        CREATE TABLE IF NOT EXISTS moods (
+          id TEXT PRIMARY KEY NOT NULL,
+          at TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS decisions (
+          id TEXT PRIMARY KEY NOT NULL,
+          at TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS inbox (
+          id TEXT PRIMARY KEY NOT NULL,
+          sent_at TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS meta (
+          key TEXT PRIMARY KEY NOT NULL,
+          value TEXT NOT NULL
+        );
+      `);
+
+      const meta = await readMeta();
+      const nights = await readAll("nights");
+
+      // Databases created before the meta table held bare nights (v0)
+      let raw: unknown;
+      if (meta.schema_version == null) {
+        raw = nights.length > 0 ? nights : null;
+      } else {
+        raw = {
+          schemaVersion: Number(meta.schema_version),
+          createdAt: meta.created_at,
+          updatedAt: meta.updated_at,
+          nights,
+          moods: await readAll("moods"),
+          decisions: await readAll("decisions"),
+          inbox: await readAll("inbox"),
+          settings: JSON.parse(meta.settings ?? "{}"),
+        };
+      }
+
+      const { doc, applied } = migrate(raw);
+      if (raw == null || applied.length > 0) await writeDoc(doc);
+    },
+
+    async queryNights(range) {
+      const rows = await db.getAllAsync<DataRow>(
+        `SELECT data FROM nights
+         WHERE (? IS NULL OR date >= ?) AND (? IS NULL OR date <= ?)
+         ORDER BY sleep_start`,
+        [
+          range?.from ?? null,
+          range?.from ?? null,
+          range?.to ?? null,
+          range?.to ?? null,
+        ]
+      );
+      return rows.map((r) => JSON.parse(r.data) as Night);
+    },
+
+    async upsertNight(night) {
+      const stored = night.id ? night : { ...night, id: newId() };
+      await upsert(stored);
+      await touch();
+      return stored;
+    },
+
+    async deleteNight(id) {
+      await db.runAsync("DELETE FROM nights WHERE id = ?", [id]);
+      await touch();
+    },
+
+    async countNights() {
+      const row = await db.getFirstAsync<{ n: number }>(
+        "SELECT COUNT(*) AS n FROM nights"
+      );
+      return row?.n ?? 0;
+    },
+
+    async replaceNights(nights) {
+      await db.withTransactionAsync(async () => {
+        await db.runAsync("DELETE FROM nights");
+        for (const n of nights) {
+          await upsert(n.id ? n : { ...n, id: newId() });
+        }
+        await touch();
+      });
+    },
+
+    async readMoods() {
+      const rows = await db.getAllAsync<DataRow>(
+        "SELECT data FROM moods ORDER BY at DESC"
+      );
+      return rows.map((r) => JSON.parse(r.data) as MoodEntry);
+    },
+
+    async appendMood(entry) {
+      await insertMood(entry);
+      await touch();
+    },
+
+    async deleteMood(id) {
+      await db.runAsync("DELETE FROM moods WHERE id = ?", [id]);
+      await touch();
+    },
+
+    async clearMoods() {
+      await db.runAsync("DELETE FROM moods");
+      await touch();
+    },
+
+    async readDecisions() {
+      const rows = await db.getAllAsync<DataRow>(
+        "SELECT data FROM decisions ORDER BY at DESC"
+      );
+      return rows.map((r) => JSON.parse(r.data) as TrialDecision);
+    },
+
+    async writeDecisions(decisions) {
+      await db.withTransactionAsync(async () => {
+        await db.runAsync("DELETE FROM decisions");
+        for (const d of decisions) await insertDecision(d);
+        await touch();
+      });
+    },
+
+    async readInbox() {
+      const rows = await db.getAllAsync<DataRow>(
+        "SELECT data FROM inbox ORDER BY sent_at DESC"
+      );
+      return rows.map((r) => JSON.parse(r.data) as InboxEntry);
+    },
+
+    async writeInbox(entries) {
+      await db.withTransactionAsync(async () => {
+        await db.runAsync("DELETE FROM inbox");
+        for (const e of entries) await insertEntry(e);
+        await touch();
+      });
+    },
+
+    async readSettings() {
+      const row = await db.getFirstAsync<MetaRow>(
+        "SELECT * FROM meta WHERE key = 'settings'"
+      );
+      return row ? JSON.parse(row.value) : {};
+    },
+
+    async writeSettings(settings) {
+      await setMeta("settings", JSON.stringify(settings));
+      await touch();
+    },
+
+    async clear() {
+      await db.withTransactionAsync(async () => {
+        await db.runAsync("DELETE FROM nights");
+        await db.runAsync("DELETE FROM moods");
+        await db.runAsync("DELETE FROM decisions");
+        await db.runAsync("DELETE FROM inbox");
+        await touch();
+      });
+    },
+
+    async readDoc() {
+      const meta = await readMeta();
+      return {
+        schemaVersion: Number(meta.schema_version),
+        createdAt: meta.created_at,
+        updatedAt: meta.updated_at,
+        nights: await readAll("nights"),
+        moods: await readAll("moods"),
+        decisions: await readAll("decisions"),
+        inbox: await readAll("inbox"),
+        settings: JSON.parse(meta.settings ?? "{}"),
+      };
+    },
+
+    async writeDoc(doc) {
+      await writeDoc({ ...doc, updatedAt: new Date().toISOString() });
+    },
+  };
+}
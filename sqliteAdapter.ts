@@ -0,0 +1,9 @@
+// sqliteAdapter.ts
+// Web build: expo-sqlite needs extra wasm bundling on web, so the SQLite
+// adapter is native-only (see sqliteAdapter.native.ts).
+
+import type { StorageAdapter } from "./storage";
+
+export async function openSqliteAdapter(): Promise<StorageAdapter | null> {
+  return null;
+}
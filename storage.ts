@@ -1,38 +1,314 @@
 // storage.ts
-// Simple memory-backed store so Expo Go works without native modules.
+// Public storage API. Data lives behind a StorageAdapter picked at startup:
+// SQLite or a JSON file on native, localStorage on web, and plain memory as a
+// fallback when nothing durable is usable. Stored data is versioned and
+// migrated on open (see schema.ts).
+
+import { Platform } from "react-native";
+import { documentAdapter, importDocument } from "./documentAdapter";
+import { fileBackend, localStorageBackend } from "./storageAdapters";
+import { openSqliteAdapter } from "./sqliteAdapter";
+import type { StoredDoc } from "./schema";
+import type { TemplateCatalog } from "./nudgeTemplates";
+import type { TrialDecision } from "./microTrial";
+import type { InboxEntry } from "./nudgeInbox";
+import type { NightSource } from "./nightSources";
+
+// Consensus Sleep Diary answers (Carney et al., 2012). Every field is
+// optional; a night without a diary is just the sleep period.
+export type SleepDiary = {
+  in_bed_at?: string;     // ISO 8601, got into bed
+  sol_min?: number;       // sleep onset latency, minutes
+  awakenings?: number;    // times woken before the final awakening
+  waso_min?: number;      // total minutes awake after sleep onset
+  out_of_bed_at?: string; // ISO 8601, got out of bed for the day
+  quality?: 1 | 2 | 3 | 4 | 5; // very poor .. very good
+};
+
+// Main sleep feeds the baseline; naps only count towards 24h sleep
+export type EpisodeKind = "main" | "nap";
 
 export type Night = {
   date: string;          // YYYY-MM-DD
-  sleep_start: string;   // ISO 8601
-  sleep_end: string;     // ISO 8601
+  sleep_start: string;   // ISO 8601; with a diary, when trying to sleep
+  sleep_end: string;     // ISO 8601; with a diary, the final awakening
   id?: string;
-  source?: "csv" | "seed" | "manual_late" | "manual_on_time";
+  source?: NightSource;
+  diary?: SleepDiary;
+  episode?: EpisodeKind; // set by the user or tracker; otherwise classified
+  tz?: string;           // IANA zone the night was slept in
+  utc_offset_min?: number; // minutes east of UTC at wake; used without tz
+};
+
+export type MoodKey =
+  | "bright"
+  | "grateful"
+  | "proud"
+  | "excited"
+  | "focused"
+  | "calm"
+  | "relaxed"
+  | "okay"
+  | "tired"
+  | "drained"
+  | "sad"
+  | "anxious"
+  | "stressed"
+  | "lonely"
+  | "angry"
+  | "overwhelmed";
+
+export type MoodEntry = {
+  id: string;
+  mood: MoodKey;
+  at: string; // ISO timestamp
+};
+
+// User preferences persisted with the data; every field is optional so older
+// documents stay valid as settings are added.
+export type Settings = {
+  musicOn?: boolean;
+  musicVolume?: number;
+  freeDays?: number[]; // wake weekdays treated as free days (0 = Sunday)
+  baselineWindowDays?: number;
+  driftThresholdMin?: number;
+  minCoverage?: number;
+  excludeFlaggedNights?: boolean; // leave nights with data problems out
+  nudgesOn?: boolean; // recurring bedtime nudges (see bedtimeNudges.ts)
+  nudgeLeadMin?: number;
+  nudgeDays?: number;
+  nudgeTemplates?: TemplateCatalog; // loaded catalog; built-in when absent
+  trialOn?: boolean; // micro-randomized trial mode (see microTrial.ts)
+  trialSeed?: number;
+  trialNudgePct?: number;
+  trialAlternatePct?: number;
 };
 
 export type DerivedNight = Night & {
   duration_min: number;
   midsleep_min_epoch: number; // minutes since epoch
+  total_sleep_min: number; // duration minus diary latency and wake time
+  time_in_bed_min: number; // in bed to out of bed, or the duration
+  sleep_efficiency: number | null; // % of time in bed asleep; needs a diary
+  kind: EpisodeKind; // Night.episode, or classified by duration and time
+  // wall clock of the zone the night was slept in (see timezone.ts)
+  start_local_min: number; // local minutes since 1970-01-01 00:00
+  end_local_min: number;
+  midsleep_clock: number; // minutes after local midnight
+  wake_day: string; // YYYY-MM-DD of the local day the episode ended on
 };
 
-// In-memory state
-let _mem: Night[] = [];
+export type StorageKind = "sqlite" | "file" | "localStorage" | "memory";
+
+// Inclusive range over Night.date (YYYY-MM-DD); open ends are unbounded
+export type DateRange = { from?: string; to?: string };
+
+export type StorageAdapter = {
+  kind: StorageKind;
+  init: () => Promise<void>;
+  queryNights: (range?: DateRange) => Promise<Night[]>; // oldest first
+  upsertNight: (night: Night) => Promise<Night>; // assigns an id if missing
+  deleteNight: (id: string) => Promise<void>;
+  countNights: () => Promise<number>;
+  replaceNights: (nights: Night[]) => Promise<void>;
+  readMoods: () => Promise<MoodEntry[]>; // newest first
+  appendMood: (entry: MoodEntry) => Promise<void>;
+  deleteMood: (id: string) => Promise<void>;
+  clearMoods: () => Promise<void>;
+  readDecisions: () => Promise<TrialDecision[]>; // newest first
+  writeDecisions: (decisions: TrialDecision[]) => Promise<void>; // replaces
+  readInbox: () => Promise<InboxEntry[]>; // newest first
+  writeInbox: (entries: InboxEntry[]) => Promise<void>; // replaces
+  readSettings: () => Promise<Settings>;
+  writeSettings: (settings: Settings) => Promise<void>;
+  clear: () => Promise<void>; // all but the settings
+  readDoc: () => Promise<StoredDoc>; // everything, as one envelope
+  writeDoc: (doc: StoredDoc) => Promise<void>; // replaces everything
+};
+
+/* ---------------- adapter selection ---------------- */
+
+async function createAdapter(
+  kind: StorageKind
+): Promise<StorageAdapter | null> {
+  switch (kind) {
+    case "sqlite":
+      return openSqliteAdapter();
+    case "file": {
+      const backend = fileBackend();
+      return backend && documentAdapter(backend);
+    }
+    case "localStorage": {
+      const backend = localStorageBackend();
+      return backend && documentAdapter(backend);
+    }
+    case "memory":
+      return documentAdapter(null);
+  }
+}
+
+function candidates(preferred?: StorageKind): StorageKind[] {
+  const defaults: StorageKind[] =
+    Platform.OS === "web" ? ["localStorage"] : ["sqlite", "file"];
+  const order = preferred ? [preferred, ...defaults] : defaults;
+  return [...new Set<StorageKind>([...order, "memory"])];
+}
+
+// Data saved by the JSON file store before SQLite existed is moved over the
+// first time the SQLite adapter starts empty.
+async function importLegacyFile(adapter: StorageAdapter) {
+  if (adapter.kind !== "sqlite") return;
+  await importDocument(adapter, fileBackend());
+}
+
+let _adapter: StorageAdapter = documentAdapter(null);
+let _ready: Promise<StorageKind> | null = null;
+
+// Pick and open the first usable adapter. Safe to call more than once; later
+// calls return the adapter chosen by the first.
+export function initStorage(preferred?: StorageKind): Promise<StorageKind> {
+  if (_ready) return _ready;
+  _ready = (async () => {
+    for (const kind of candidates(preferred)) {
+      try {
+        const adapter = await createAdapter(kind);
+        if (!adapter) continue;
+        await adapter.init();
+        await importLegacyFile(adapter);
+        _adapter = adapter;
+        return kind;
+      } catch (e) {
+        console.warn(`Storage adapter "${kind}" unavailable:`, e);
+      }
+    }
+    return _adapter.kind;
+  })();
+  return _ready;
+}
+
+// Run an operation on the active adapter. Failures reach the caller: the
+// stored data stays where it is rather than being swapped for an empty
+// in-memory store.
+async function withAdapter<T>(
+  op: (a: StorageAdapter) => Promise<T>
+): Promise<T> {
+  await initStorage();
+  return op(_adapter);
+}
+
+/* ---------------- public API ---------------- */
 
 // Read all raw nights
 export async function readRaw(): Promise<Night[]> {
-  return _mem;
+  return withAdapter((a) => a.queryNights());
+}
+
+// Nights whose date falls in the (inclusive) range
+export async function queryNights(range: DateRange): Promise<Night[]> {
+  return withAdapter((a) => a.queryNights(range));
+}
+
+// Insert or update a single night by id
+export async function upsertNight(night: Night): Promise<Night> {
+  return withAdapter((a) => a.upsertNight(night));
+}
+
+export async function deleteNight(id: string): Promise<void> {
+  await withAdapter((a) => a.deleteNight(id));
+}
+
+export async function countNights(): Promise<number> {
+  return withAdapter((a) => a.countNights());
+}
+
+// Mood check-ins, newest first
+export async function readMoods(): Promise<MoodEntry[]> {
+  return withAdapter((a) => a.readMoods());
+}
+
+export async function appendMood(entry: MoodEntry): Promise<void> {
+  await withAdapter((a) => a.appendMood(entry));
+}
+
+export async function deleteMood(id: string): Promise<void> {
+  await withAdapter((a) => a.deleteMood(id));
+}
+
+export async function clearMoods(): Promise<void> {
+  await withAdapter((a) => a.clearMoods());
+}
+
+// Trial decision log, newest first
+export async function readDecisions(): Promise<TrialDecision[]> {
+  return withAdapter((a) => a.readDecisions());
+}
+
+export async function writeDecisions(
+  decisions: TrialDecision[]
+): Promise<void> {
+  await withAdapter((a) => a.writeDecisions(decisions));
+}
+
+// Nudges sent, and scheduled ones still ahead; newest first
+export async function readInbox(): Promise<InboxEntry[]> {
+  return withAdapter((a) => a.readInbox());
+}
+
+// Inbox changes read the whole log and write it back, so they run one after
+// another; otherwise a nudge marked opened while the plan is being logged
+// would be overwritten.
+let _inboxQueue: Promise<unknown> = Promise.resolve();
+
+// Apply `change` to the stored inbox and return the new log, or null when
+// `change` returns null (nothing to write)
+export function updateInbox(
+  change: (log: InboxEntry[]) => InboxEntry[] | null
+): Promise<InboxEntry[] | null> {
+  const run = _inboxQueue.then(() =>
+    withAdapter(async (a) => {
+      const next = change(await a.readInbox());
+      if (next) await a.writeInbox(next);
+      return next;
+    })
+  );
+  _inboxQueue = run.catch(() => undefined);
+  return run;
+}
+
+export async function readSettings(): Promise<Settings> {
+  return withAdapter((a) => a.readSettings());
+}
+
+// Merge a partial update into the stored settings and return the result
+export async function updateSettings(patch: Settings): Promise<Settings> {
+  return withAdapter(async (a) => {
+    const next = { ...(await a.readSettings()), ...patch };
+    await a.writeSettings(next);
+    return next;
+  });
 }
 
 // Overwrite all nights
 export async function writeRaw(nights: Night[]): Promise<void> {
-  _mem = [...nights];
+  await withAdapter((a) => a.replaceNights(nights));
 }
 
 // Clear everything
 export async function clearAll(): Promise<void> {
-  _mem = [];
+  await withAdapter((a) => a.clear());
+}
+
+// Everything stored, for backups
+export async function readSnapshot(): Promise<StoredDoc> {
+  return withAdapter((a) => a.readDoc());
+}
+
+// Replace everything stored (nights, moods and settings) with a snapshot
+export async function restoreSnapshot(doc: StoredDoc): Promise<void> {
+  await withAdapter((a) => a.writeDoc(doc));
 }
 
 // For the status label in the UI
-export function storageKind(): string {
-  return "memory";
+export function storageKind(): StorageKind {
+  return _adapter.kind;
 }
@@ -0,0 +1,54 @@
+// storageAdapters.ts
+// Backends for the document adapter (documentAdapter.ts): a JSON file on
+// native and localStorage on web. Each loads and saves the whole serialized
+// envelope.
+
+import { File, Paths } from "expo-file-system";
+import type { DocumentBackend } from "./documentAdapter";
+
+const FILE_NAME = "nudgekit-nights.json";
+const LOCAL_KEY = "nudgekit:nights";
+
+/* ---------------- backends ---------------- */
+
+export function fileBackend(): DocumentBackend | null {
+  try {
+    const file = new File(Paths.document, FILE_NAME);
+    return {
+      kind: "file",
+      load: async () => (file.exists ? file.text() : null),
+      save: async (text) => {
+        if (!file.exists) file.create({ intermediates: true });
+        file.write(text);
+      },
+      remove: async () => {
+        if (file.exists) file.delete();
+      },
+    };
+  } catch (e) {
+    console.warn("File storage unavailable:", e);
+    return null;
+  }
+}
+
+export function localStorageBackend(): DocumentBackend | null {
+  try {
+    if (typeof localStorage === "undefined") return null;
+    // probe once; private browsing modes can throw on write
+    localStorage.setItem(`${LOCAL_KEY}:probe`, "1");
+    localStorage.removeItem(`${LOCAL_KEY}:probe`);
+    return {
+      kind: "localStorage",
+      load: async () => localStorage.getItem(LOCAL_KEY),
+      save: async (text) => {
+        localStorage.setItem(LOCAL_KEY, text);
+      },
+      remove: async () => {
+        localStorage.removeItem(LOCAL_KEY);
+      },
+    };
+  } catch (e) {
+    console.warn("localStorage unavailable:", e);
+    return null;
+  }
+}
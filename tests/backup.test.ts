@@ -0,0 +1,68 @@
+// backup.test.ts
+// A backup reads back as the document it was written from; files that are
+// not backups, or hold broken records, are refused before anything changes.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BACKUP_FORMAT,
+  BackupError,
+  buildBackup,
+  parseBackup,
+} from "../backup";
+import { SCHEMA_VERSION, StoredDoc, emptyDoc } from "../schema";
+
+const NOW = new Date("2026-02-01T12:00:00.000Z");
+
+const doc: StoredDoc = {
+  ...emptyDoc("2026-01-01T08:00:00.000Z"),
+  nights: [
+    {
+      id: "a",
+      date: "2026-01-10",
+      sleep_start: "2026-01-09T23:00:00.000Z",
+      sleep_end: "2026-01-10T07:00:00.000Z",
+      utc_offset_min: 0,
+    },
+  ],
+  moods: [{ id: "m", mood: "calm", at: "2026-01-10T07:30:00.000Z" }],
+};
+
+const file = (data: unknown) =>
+  JSON.stringify({ format: BACKUP_FORMAT, createdAt: NOW, data });
+
+test("a backup reads back as the document it was written from", () => {
+  const backup = parseBackup(buildBackup(doc, NOW));
+  assert.deepEqual(backup.doc, doc);
+  assert.equal(backup.createdAt, NOW.toISOString());
+  assert.equal(backup.fromSchema, SCHEMA_VERSION);
+});
+
+test("an older backup is upgraded", () => {
+  const backup = parseBackup(file(doc.nights));
+  assert.equal(backup.fromSchema, 0);
+  assert.equal(backup.doc.schemaVersion, SCHEMA_VERSION);
+  assert.equal(backup.doc.nights.length, 1);
+});
+
+test("files that are not backups are refused", () => {
+  for (const text of [
+    "{not json",
+    "null",
+    "[]",
+    '"nudgekit-backup"',
+    JSON.stringify({ format: "other", data: doc }),
+    JSON.stringify({ format: BACKUP_FORMAT }),
+  ]) {
+    assert.throws(() => parseBackup(text), BackupError);
+  }
+});
+
+test("broken records are refused", () => {
+  const bad = { ...doc, nights: [{ ...doc.nights[0], sleep_end: "later" }] };
+  assert.throws(() => parseBackup(file(bad)), /Night 1/);
+  assert.throws(
+    () => parseBackup(file({ ...doc, schemaVersion: SCHEMA_VERSION + 1 })),
+    BackupError
+  );
+});
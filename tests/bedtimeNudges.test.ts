@@ -0,0 +1,149 @@
+// bedtimeNudges.test.ts
+// Planning the bedtime nudge from scenario histories: which tiers send one,
+// the evenings and times it fires on (across a DST change too), and how a
+// trial assigns arms to the planned evenings.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeSleep } from "../sleepAnalytics";
+import { ScenarioId, generateNights } from "../scenarios";
+import { baselineBedtime, eveningOf, planNudges } from "../bedtimeNudges";
+import { applyTrial } from "../microTrial";
+import { clockOf, localMinutes } from "../timezone";
+
+const NEW_YORK = { tz: "America/New_York" };
+
+// Two weeks of a scenario in New York, waking up to the morning of `day`
+const summaryOf = (id: ScenarioId, day = "2026-03-01") =>
+  analyzeSleep(
+    generateNights(id, {
+      days: 14,
+      end: new Date(`${day}T14:00:00Z`),
+      zone: NEW_YORK,
+    })
+  );
+
+const localClock = (at: Date) => clockOf(localMinutes(at, NEW_YORK));
+
+// Noon in New York on the day the histories end
+const NOON = new Date("2026-03-01T17:00:00Z");
+
+/* ---------------- planning ---------------- */
+
+test("a steady sleeper gets no nudges", () => {
+  const s = summaryOf("steady");
+  assert.equal(s.risk, "on_track");
+  assert.deepEqual(planNudges(s, {}, NOON, NEW_YORK), []);
+});
+
+test("a drifting sleeper gets one nudge an evening before bedtime", () => {
+  const s = summaryOf("phase_delay");
+  assert.equal(s.risk, "slight");
+  assert.equal(s.direction, "later");
+  const bedtime = baselineBedtime(s)!;
+  // past midnight, so each nudge belongs to the evening before
+  assert.ok(bedtime < 12 * 60);
+
+  const plan = planNudges(s, { days: 3, leadMin: 60 }, NOON, NEW_YORK);
+  assert.deepEqual(
+    plan.map((n) => n.evening),
+    ["2026-03-01", "2026-03-02", "2026-03-03"]
+  );
+  assert.deepEqual(
+    plan.map((n) => n.id),
+    plan.map((n) => `bedtime-${n.evening}`)
+  );
+  for (const n of plan) {
+    assert.equal(n.bedtimeClock, bedtime);
+    assert.equal(localClock(n.at), bedtime - 60);
+    assert.equal(eveningOf(n.at, NEW_YORK), n.evening);
+    assert.match(n.templateId, /^slight-later-/);
+  }
+  // a longer lead fires earlier by the difference
+  const early = planNudges(s, { days: 3, leadMin: 120 }, NOON, NEW_YORK);
+  assert.equal(plan[0].at.getTime() - early[0].at.getTime(), 60 * 60000);
+});
+
+test("the direction of the drift picks the wording", () => {
+  const s = summaryOf("shift_worker");
+  assert.equal(s.direction, "earlier");
+  const plan = planNudges(s, { days: 2 }, NOON, NEW_YORK);
+  assert.equal(plan.length, 2);
+  for (const n of plan) assert.match(n.templateId, /-earlier-/);
+});
+
+test("an evening whose nudge has fired is not planned again", () => {
+  const s = summaryOf("phase_delay");
+  const [first, second] = planNudges(s, { days: 2 }, NOON, NEW_YORK);
+  const after = new Date(first.at.getTime() + 60000);
+  const plan = planNudges(s, { days: 2 }, after, NEW_YORK);
+  assert.equal(plan[0].evening, second.evening);
+  assert.equal(plan[0].at.getTime(), second.at.getTime());
+});
+
+test("nudges switched off plan nothing", () => {
+  const s = summaryOf("phase_delay");
+  assert.deepEqual(planNudges(s, { enabled: false }, NOON, NEW_YORK), []);
+});
+
+test("nudges keep their clock time across the spring DST change", () => {
+  const s = summaryOf("phase_delay", "2026-03-06");
+  const now = new Date("2026-03-06T17:00:00Z");
+  const plan = planNudges(s, { days: 7, leadMin: 60 }, now, NEW_YORK);
+  const clock = baselineBedtime(s)! - 60;
+  assert.deepEqual(plan.map((n) => localClock(n.at)), Array(7).fill(clock));
+  // an hour earlier in UTC once the clocks have gone forward
+  const hours = plan
+    .slice(1)
+    .map((n, i) => (n.at.getTime() - plan[i].at.getTime()) / 3600000);
+  assert.deepEqual(hours, [24, 23, 24, 24, 24, 24]);
+});
+
+/* ---------------- trial ---------------- */
+
+test("a trial draws the same arm for an evening every time", () => {
+  const s = summaryOf("phase_delay");
+  const plan = planNudges(s, { days: 7 }, NOON, NEW_YORK);
+  const trial = { enabled: true, seed: 7 };
+  const arms = applyTrial(plan, s, {}, trial).map((n) => n.arm);
+  assert.deepEqual(applyTrial(plan, s, {}, trial).map((n) => n.arm), arms);
+  // planning a day later keeps the arms of the evenings still ahead
+  const later = planNudges(
+    s,
+    { days: 7 },
+    new Date(NOON.getTime() + 24 * 3600000),
+    NEW_YORK
+  );
+  assert.deepEqual(
+    applyTrial(later, s, {}, trial)
+      .slice(0, 6)
+      .map((n) => n.arm),
+    arms.slice(1)
+  );
+  // off: the plan as it was
+  assert.equal(applyTrial(plan, s, {}, { enabled: false }), plan);
+});
+
+test("the alternate arm is reworded; the none arm keeps its evening", () => {
+  const s = summaryOf("phase_delay");
+  const plan = planNudges(s, { days: 3 }, NOON, NEW_YORK);
+  const alternate = applyTrial(plan, s, {}, {
+    enabled: true,
+    nudgePct: 0,
+    alternatePct: 100,
+  });
+  alternate.forEach((n, i) => {
+    assert.equal(n.arm, "alternate");
+    assert.equal(n.at, plan[i].at);
+    assert.notEqual(n.templateId, plan[i].templateId);
+  });
+  const none = applyTrial(plan, s, {}, {
+    enabled: true,
+    nudgePct: 0,
+    alternatePct: 0,
+  });
+  assert.deepEqual(
+    none.map((n) => [n.evening, n.arm]),
+    plan.map((n) => [n.evening, "none"])
+  );
+});
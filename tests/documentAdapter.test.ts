@@ -0,0 +1,114 @@
+// documentAdapter.test.ts
+// The JSON document adapter over an in-memory backend, and moving a legacy
+// document into a fresh store. The target stands in for SQLite, which only
+// runs on a device; both take the same StorageAdapter calls.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { StorageAdapter } from "../storage";
+import {
+  DocumentBackend,
+  documentAdapter,
+  importDocument,
+} from "../documentAdapter";
+import { SCHEMA_VERSION, StoredDoc, emptyDoc } from "../schema";
+
+// A file that holds `text` until it is removed
+function memoryFile(text: string | null) {
+  const file = { text, removed: false };
+  const backend: DocumentBackend = {
+    kind: "file",
+    load: async () => file.text,
+    save: async (next) => {
+      file.text = next;
+    },
+    remove: async () => {
+      file.text = null;
+      file.removed = true;
+    },
+  };
+  return { file, backend };
+}
+
+const legacy: StoredDoc = {
+  ...emptyDoc("2025-06-01T08:00:00.000Z"),
+  nights: [
+    {
+      id: "n1",
+      date: "2025-06-10",
+      sleep_start: "2025-06-09T23:00:00.000Z",
+      sleep_end: "2025-06-10T07:00:00.000Z",
+      utc_offset_min: 0,
+    },
+  ],
+  moods: [{ id: "m1", mood: "calm", at: "2025-06-10T07:30:00.000Z" }],
+  settings: { musicOn: false, freeDays: [0, 6], nudgeLeadMin: 45 },
+};
+
+const freshStore = async () => {
+  const store = documentAdapter(null);
+  await store.init();
+  return store;
+};
+
+test("a legacy file moves over whole, moods and settings too", async () => {
+  const { file, backend } = memoryFile(JSON.stringify(legacy));
+  const store = await freshStore();
+  await importDocument(store, backend);
+
+  assert.deepEqual(await store.queryNights(), legacy.nights);
+  assert.deepEqual(await store.readMoods(), legacy.moods);
+  assert.deepEqual(await store.readSettings(), legacy.settings);
+  assert.equal(file.removed, true);
+});
+
+test("an older legacy file is migrated on the way", async () => {
+  // v0: the bare night list, before moods and settings existed
+  const { file, backend } = memoryFile(JSON.stringify(legacy.nights));
+  const store = await freshStore();
+  await importDocument(store, backend);
+  const doc = await store.readDoc();
+  assert.equal(doc.schemaVersion, SCHEMA_VERSION);
+  assert.equal(doc.nights.length, 1);
+  assert.equal(file.removed, true);
+});
+
+test("a legacy file without nights still keeps its other data", async () => {
+  const { backend } = memoryFile(JSON.stringify({ ...legacy, nights: [] }));
+  const store = await freshStore();
+  await importDocument(store, backend);
+  assert.deepEqual(await store.readMoods(), legacy.moods);
+  assert.deepEqual(await store.readSettings(), legacy.settings);
+});
+
+test("the legacy file stays when the copy fails", async () => {
+  const { file, backend } = memoryFile(JSON.stringify(legacy));
+  const store: StorageAdapter = {
+    ...(await freshStore()),
+    writeDoc: async () => {
+      throw new Error("disk full");
+    },
+  };
+  await assert.rejects(importDocument(store, backend), /disk full/);
+  assert.equal(file.removed, false);
+  assert.equal(file.text, JSON.stringify(legacy));
+});
+
+test("nothing moves into a store that already has nights", async () => {
+  const { file, backend } = memoryFile(JSON.stringify(legacy));
+  const store = await freshStore();
+  await store.writeSettings({ musicOn: true });
+  await store.upsertNight({ ...legacy.nights[0], id: "other" });
+  await importDocument(store, backend);
+  assert.deepEqual(await store.readSettings(), { musicOn: true });
+  assert.equal(file.removed, false);
+});
+
+test("without a legacy file the store is left as it is", async () => {
+  const { backend } = memoryFile(null);
+  const store = await freshStore();
+  // cleared data keeps its settings and has no nights
+  await store.writeSettings({ musicOn: true });
+  await importDocument(store, backend);
+  assert.deepEqual(await store.readSettings(), { musicOn: true });
+});
@@ -0,0 +1,100 @@
+// exportData.test.ts
+// Exports read back through the importers give the same nights and mood
+// check-ins, and importing them again adds nothing.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { MoodEntry, Night } from "../storage";
+import { exportJson, exportedNights, nightsCsv } from "../exportData";
+import { buildCsvImportReport, nightsFromReport } from "../csvImport";
+import { buildImportReport } from "../importers";
+import { newMoods, planMerge } from "../importMerge";
+import { generateNights } from "../scenarios";
+import { HOUR, night } from "./nights";
+
+const nights: Night[] = generateNights("weekend_drifter", {
+  days: 14,
+  end: new Date("2026-03-20T12:00:00Z"),
+  zone: { tz: "Europe/Berlin" },
+}).map((n, i) =>
+  i === 3 ? { ...n, diary: { sol_min: 20, awakenings: 2, quality: 4 } } : n
+);
+
+const moods: MoodEntry[] = [
+  { id: "m1", mood: "calm", at: "2026-03-18T07:30:00.000Z" },
+  { id: "m2", mood: "tired", at: "2026-03-19T21:10:00.000Z" },
+];
+
+// Drops keys whose value is undefined, as storing the night would
+const plain = (ns: Night[]) => JSON.parse(JSON.stringify(ns)) as Night[];
+
+test("the JSON export round-trips nights and mood check-ins", () => {
+  const report = buildImportReport(exportJson(nights, moods));
+  assert.equal(report.skipped, 0);
+  assert.deepEqual(plain(nightsFromReport(report)), plain(nights));
+  assert.deepEqual(report.moods, moods);
+
+  // importing the same file again changes nothing
+  assert.deepEqual(newMoods(moods, report.moods), []);
+  const plan = planMerge(nights, nightsFromReport(report));
+  assert.equal(plan.identical.length, nights.length);
+  assert.deepEqual(plan.added, []);
+});
+
+test("the nights CSV round-trips", () => {
+  const report = buildCsvImportReport(nightsCsv(nights));
+  assert.equal(report.skipped, 0);
+  assert.deepEqual(plain(nightsFromReport(report)), plain(nights));
+});
+
+test("imported mood check-ins are deduplicated", () => {
+  const stored = [moods[0]];
+  const incoming: MoodEntry[] = [
+    moods[0], // stored
+    { ...moods[0], id: "other" }, // same time and mood, other id
+    moods[1],
+    moods[1], // repeated in the file
+  ];
+  assert.deepEqual(newMoods(stored, incoming), [moods[1]]);
+});
+
+test("mood check-ins that cannot be read are left out", () => {
+  const text = JSON.stringify({
+    app: "nudgekit",
+    nights: [],
+    moods: [
+      { mood: "calm", at: "2026-03-18T07:30:00Z" },
+      { mood: "", at: "2026-03-18T07:30:00Z" },
+      { mood: "calm", at: "yesterday" },
+      "calm",
+    ],
+  });
+  assert.deepEqual(buildImportReport(text).moods, [
+    {
+      id: "2026-03-18T07:30:00.000Z-calm",
+      mood: "calm",
+      at: "2026-03-18T07:30:00.000Z",
+    },
+  ]);
+});
+
+test("a second, shorter sleep on a wake day exports as a nap", () => {
+  const main = night("2026-03-10", -HOUR, 6.5 * HOUR, "main");
+  // an hour back to bed after waking: short, but too early to look like a
+  // nap on its own
+  const nap = night("2026-03-10", 7.5 * HOUR, 8.5 * HOUR, "nap");
+  const exported = exportedNights([nap, main]);
+  assert.deepEqual(
+    exported.map((n) => [n.id, n.kind]),
+    [
+      ["main", "main"],
+      ["nap", "nap"],
+    ]
+  );
+  const csv = nightsCsv([nap, main]).split(/\r?\n/);
+  const kind = csv[0].split(",").indexOf("kind");
+  assert.deepEqual(
+    csv.slice(1, 3).map((row) => row.split(",")[kind]),
+    ["main", "nap"]
+  );
+});
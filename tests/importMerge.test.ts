@@ -0,0 +1,101 @@
+// importMerge.test.ts
+// Planning a merge of imported nights into stored ones, and the storage
+// operations it turns into.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mergeOps, planMerge, resolveConflict } from "../importMerge";
+import { HOUR, night } from "./nights";
+
+const stored = [
+  night("2026-01-10", -HOUR, 7 * HOUR, "a"),
+  night("2026-01-11", -HOUR, 7 * HOUR, "b"),
+];
+
+test("stored nights are ignored, new ones added, clashes conflict", () => {
+  const plan = planMerge(stored, [
+    night("2026-01-10", -HOUR, 7 * HOUR), // already stored
+    night("2026-01-11", 0, 8 * HOUR), // same date as b
+    night("2026-01-12", -HOUR, 7 * HOUR), // new
+  ]);
+  assert.equal(plan.identical.length, 1);
+  assert.deepEqual(plan.added.map((n) => n.date), ["2026-01-12"]);
+  assert.equal(plan.conflicts.length, 1);
+  assert.equal(plan.conflicts[0].kind, "duplicate");
+  assert.equal(plan.conflicts[0].existing.id, "b");
+  assert.equal(plan.conflicts[0].choice, "keep_existing");
+  assert.deepEqual(plan.clashing, []);
+  assert.equal(plan.untouched, 0);
+});
+
+test("times that overlap a stored night on another date conflict", () => {
+  // a late night logged under the next day's date
+  const plan = planMerge(stored, [
+    night("2026-01-12", -20 * HOUR, -14 * HOUR),
+  ]);
+  assert.equal(plan.conflicts.length, 1);
+  assert.equal(plan.conflicts[0].kind, "overlap");
+  assert.equal(plan.untouched, 1);
+});
+
+test("a file repeating a night counts it once", () => {
+  const plan = planMerge(stored, [
+    night("2026-01-12", -HOUR, 7 * HOUR),
+    night("2026-01-12", -HOUR, 7 * HOUR),
+    night("2026-01-11", 0, 8 * HOUR),
+    night("2026-01-11", 0, 8 * HOUR),
+  ]);
+  assert.equal(plan.added.length, 1);
+  assert.equal(plan.conflicts.length, 1);
+  assert.equal(plan.identical.length, 2);
+});
+
+test("nights in the file that clash with each other are left out", () => {
+  const plan = planMerge(stored, [
+    night("2026-01-12", -HOUR, 7 * HOUR),
+    night("2026-01-12", 0, 9 * HOUR), // same date, overlapping
+    night("2026-01-13", -2 * HOUR, 5 * HOUR),
+    night("2026-01-13", 8 * HOUR, 14 * HOUR), // same date, no overlap
+  ]);
+  assert.equal(plan.added.length, 2);
+  assert.deepEqual(plan.clashing, [
+    night("2026-01-12", 0, 9 * HOUR),
+    night("2026-01-13", 8 * HOUR, 14 * HOUR),
+  ]);
+});
+
+test("a nap beside a main sleep is not a clash", () => {
+  const plan = planMerge(stored, [
+    night("2026-01-12", -HOUR, 7 * HOUR),
+    night("2026-01-12", 14 * HOUR, 15 * HOUR), // afternoon nap
+  ]);
+  assert.equal(plan.added.length, 2);
+  assert.deepEqual(plan.clashing, []);
+});
+
+test("taking imported nights replaces a stored night once", () => {
+  let plan = planMerge(stored, [
+    night("2026-01-11", 0, 8 * HOUR),
+    night("2026-01-11", HOUR / 2, 8.5 * HOUR), // clashes with the one before
+    night("2026-01-12", -HOUR, 7 * HOUR),
+  ]);
+  assert.equal(plan.conflicts.length, 1);
+  assert.equal(plan.clashing.length, 1);
+  plan = resolveConflict(plan, plan.conflicts[0].key, "take_imported");
+  const ops = mergeOps(plan);
+  assert.deepEqual(ops.deletes, ["b"]);
+  assert.deepEqual(ops.upserts, [
+    night("2026-01-12", -HOUR, 7 * HOUR),
+    night("2026-01-11", 0, 8 * HOUR),
+  ]);
+});
+
+test("keep existing writes nothing for the conflict; keep both adds it", () => {
+  const plan = planMerge(stored, [night("2026-01-11", 0, 8 * HOUR)]);
+  assert.deepEqual(mergeOps(plan), { upserts: [], deletes: [] });
+  const both = resolveConflict(plan, plan.conflicts[0].key, "keep_both");
+  assert.deepEqual(mergeOps(both), {
+    upserts: [night("2026-01-11", 0, 8 * HOUR)],
+    deletes: [],
+  });
+});
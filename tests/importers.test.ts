@@ -0,0 +1,127 @@
+// importers.test.ts
+// Each tracker importer against a sample export in tests/fixtures. Times
+// without an offset (Fitbit) are read on the machine's clock, so expectations
+// for them are worked out the same way.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ImportError, ImportReport, nightsFromReport } from "../csvImport";
+import { buildImportReport, detectFormat } from "../importers";
+
+// Compiled tests run from build-tests/tests; the fixtures stay in the source
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, "..", "..", "tests", "fixtures", name), "utf8");
+
+const statuses = (report: ImportReport) => report.rows.map((r) => r.status);
+
+test("Apple Health: stages merge into episodes; in-bed is ignored", () => {
+  const text = fixture("apple-health-export.xml");
+  assert.equal(detectFormat(text), "apple_health");
+  const report = buildImportReport(text);
+  assert.deepEqual(statuses(report), ["accepted", "accepted", "suspicious"]);
+
+  const [first, second, nap] = nightsFromReport(report);
+  // core, deep, a 10 minute awakening and REM make one night
+  assert.equal(first.sleep_start, "2024-01-08T04:05:00.000Z");
+  assert.equal(first.sleep_end, "2024-01-08T11:30:00.000Z");
+  assert.equal(first.date, "2024-01-08");
+  assert.equal(first.source, "apple_health");
+  // two apps recording the same night
+  assert.equal(second.sleep_start, "2024-01-09T04:30:00.000Z");
+  assert.equal(second.sleep_end, "2024-01-09T12:10:00.000Z");
+  assert.equal(report.rows[1].fields[2], "Sleep App + Apple Watch");
+  assert.equal(nap.sleep_start, "2024-01-09T19:00:00.000Z");
+  assert.match(report.rows[2].reasons[0], /Only 40 minutes/);
+});
+
+test("Fitbit: sleep logs keep their date and main-sleep flag", () => {
+  const text = fixture("fitbit-sleep.json");
+  assert.equal(detectFormat(text), "fitbit");
+  const report = buildImportReport(text);
+  assert.deepEqual(statuses(report), ["accepted", "suspicious", "accepted"]);
+
+  const [first, nap, last] = nightsFromReport(report);
+  assert.equal(
+    first.sleep_start,
+    new Date("2024-01-07T23:12:30.000").toISOString()
+  );
+  assert.equal(
+    first.sleep_end,
+    new Date("2024-01-08T07:01:00.000").toISOString()
+  );
+  assert.equal(first.date, "2024-01-08");
+  assert.equal(first.episode, "main");
+  assert.equal(first.source, "fitbit");
+  assert.equal(nap.episode, "nap");
+  assert.equal(last.date, "2024-01-09");
+
+  // the Web API wraps the same logs in { sleep: [...] }
+  const wrapped = JSON.stringify({ sleep: JSON.parse(text) });
+  assert.equal(detectFormat(wrapped), "fitbit");
+  assert.deepEqual(nightsFromReport(buildImportReport(wrapped)), [
+    first,
+    nap,
+    last,
+  ]);
+});
+
+test("Oura: rest periods are skipped and naps marked", () => {
+  const text = fixture("oura-sleep.csv");
+  assert.equal(detectFormat(text), "oura");
+  const report = buildImportReport(text);
+  assert.deepEqual(statuses(report), [
+    "accepted",
+    "skipped",
+    "suspicious",
+    "accepted",
+  ]);
+  assert.deepEqual(report.rows[1].reasons, ["Rest period, not sleep."]);
+
+  const [first, nap, last] = nightsFromReport(report);
+  assert.equal(first.sleep_start, "2024-01-08T04:20:00.000Z");
+  assert.equal(first.sleep_end, "2024-01-08T12:05:00.000Z");
+  assert.equal(first.date, "2024-01-08");
+  assert.equal(first.source, "oura");
+  assert.equal(first.episode, undefined);
+  assert.equal(nap.episode, "nap");
+  assert.equal(last.date, "2024-01-09");
+});
+
+test("Google Fit: a Takeout session file", () => {
+  const text = fixture("google-fit-takeout-session.json");
+  assert.equal(detectFormat(text), "google_fit");
+  const [night] = nightsFromReport(buildImportReport(text));
+  assert.equal(night.sleep_start, "2024-01-08T04:05:00.000Z");
+  assert.equal(night.sleep_end, "2024-01-08T11:45:00.000Z");
+  assert.equal(night.source, "google_fit");
+});
+
+test("Google Fit: an API session list keeps only sleep", () => {
+  const text = fixture("google-fit-sessions.json");
+  assert.equal(detectFormat(text), "google_fit");
+  const report = buildImportReport(text);
+  assert.deepEqual(statuses(report), ["accepted", "skipped"]);
+  assert.match(report.rows[1].reasons[0], /Not a sleep session \(7\)/);
+  const [night] = nightsFromReport(report);
+  assert.equal(night.sleep_start, "2024-01-09T03:30:00.000Z");
+  assert.equal(night.sleep_end, "2024-01-09T11:10:00.000Z");
+});
+
+test("files that are not sleep exports are refused", () => {
+  assert.throws(() => detectFormat("<xml></xml>"), ImportError);
+  assert.throws(() => detectFormat('{"steps": []}'), ImportError);
+  assert.throws(() => detectFormat("{not json"), ImportError);
+  assert.throws(
+    () => detectFormat('{"format": "nudgekit-backup", "data": {}}'),
+    /Restore backup/
+  );
+});
+
+test("malformed records become skipped rows, not crashes", () => {
+  const report = buildImportReport(
+    JSON.stringify([{ logId: 1, startTime: 5 }, null, "night"])
+  );
+  assert.deepEqual(statuses(report), ["skipped", "skipped", "skipped"]);
+});
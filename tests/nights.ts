@@ -0,0 +1,26 @@
+// nights.ts
+// Fixture nights shared by the test files. Times are minutes relative to the
+// wake day's UTC midnight, with a fixed UTC offset, so results do not depend
+// on the machine's time zone.
+
+import type { Night } from "../storage";
+
+export const HOUR = 60;
+
+// A UTC night waking on `day`, from `bed` to `wake` minutes after that day's
+// midnight (negative = the evening before)
+export function night(
+  day: string,
+  bed: number,
+  wake: number,
+  id?: string
+): Night {
+  const midnight = Date.parse(`${day}T00:00:00Z`);
+  return {
+    date: day,
+    sleep_start: new Date(midnight + bed * 60000).toISOString(),
+    sleep_end: new Date(midnight + wake * 60000).toISOString(),
+    utc_offset_min: 0,
+    ...(id ? { id } : {}),
+  };
+}
@@ -0,0 +1,105 @@
+// nudgeInbox.test.ts
+// The nudge log kept from a scenario's plan: re-planning replaces only what
+// is still ahead, and opening a nudge is recorded once.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeSleep } from "../sleepAnalytics";
+import { generateNights } from "../scenarios";
+import { planNudges } from "../bedtimeNudges";
+import { applyTrial } from "../microTrial";
+import {
+  addEntry,
+  entriesFromPlan,
+  inboxEntry,
+  markOpened,
+  mergeInbox,
+  sentEntries,
+} from "../nudgeInbox";
+
+const ZONE = { tz: "Europe/Berlin" };
+const NOON = new Date("2026-03-01T11:00:00Z");
+const HOUR = 3600000;
+
+const summary = analyzeSleep(
+  generateNights("phase_delay", {
+    days: 14,
+    end: new Date("2026-03-01T09:00:00Z"),
+    zone: ZONE,
+  })
+);
+const plan = planNudges(summary, { days: 3 }, NOON, ZONE);
+const planned = entriesFromPlan(plan, summary);
+
+test("planned nudges become scheduled entries, newest first", () => {
+  assert.equal(planned.length, 3);
+  const log = mergeInbox([], planned, NOON);
+  assert.deepEqual(
+    log.map((e) => e.evening),
+    ["2026-03-03", "2026-03-02", "2026-03-01"]
+  );
+  for (const e of log) {
+    assert.equal(e.origin, "scheduled");
+    assert.equal(e.openedAt, null);
+    assert.equal(e.context.risk, summary.risk);
+  }
+  // nothing has fired yet
+  assert.deepEqual(sentEntries(log, NOON), []);
+});
+
+test("re-planning keeps sent nudges and replaces the ones ahead", () => {
+  const log = mergeInbox([], planned, NOON);
+  const afterFirst = new Date(plan[0].at.getTime() + HOUR);
+  const replanned = entriesFromPlan(
+    planNudges(summary, { days: 3, leadMin: 30 }, afterFirst, ZONE),
+    summary
+  );
+  const merged = mergeInbox(log, replanned, afterFirst);
+  // the first evening fired with the old lead; the rest use the new one
+  const first = merged.find((e) => e.evening === "2026-03-01")!;
+  assert.equal(first.sentAt, plan[0].at.toISOString());
+  const second = merged.find((e) => e.evening === "2026-03-02")!;
+  assert.equal(
+    Date.parse(second.sentAt) - plan[1].at.getTime(),
+    0.5 * HOUR
+  );
+  assert.equal(merged.length, 4);
+  assert.deepEqual(
+    sentEntries(merged, afterFirst).map((e) => e.id),
+    [plan[0].id]
+  );
+});
+
+test("evenings a trial drew no nudge for are not logged", () => {
+  const none = applyTrial(plan, summary, {}, {
+    enabled: true,
+    nudgePct: 0,
+    alternatePct: 0,
+  });
+  assert.deepEqual(entriesFromPlan(none, summary), []);
+});
+
+test("opening a nudge is recorded once", () => {
+  const log = mergeInbox([], planned, NOON);
+  const id = plan[0].id;
+  const at = new Date(plan[0].at.getTime() + 5 * 60000);
+  const opened = markOpened(log, id, at)!;
+  assert.equal(
+    opened.find((e) => e.id === id)!.openedAt,
+    at.toISOString()
+  );
+  assert.equal(markOpened(opened, id), null);
+  assert.equal(markOpened(log, "bedtime-unknown"), null);
+});
+
+test("in-app nudges count as opened and replace an entry with their id", () => {
+  const entry = inboxEntry(summary, plan[0], {
+    id: "preview-1",
+    sentAt: NOON,
+    channel: "in_app",
+    origin: "preview",
+  });
+  assert.equal(entry.openedAt, NOON.toISOString());
+  const log = addEntry(addEntry([], entry), { ...entry, title: "Again" });
+  assert.deepEqual(log.map((e) => e.title), ["Again"]);
+});
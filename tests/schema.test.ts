@@ -0,0 +1,174 @@
+// schema.test.ts
+// Each migration step on its own, then the runner end to end.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Night } from "../storage";
+import {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  SchemaError,
+  StoredDoc,
+  emptyDoc,
+  migrate,
+} from "../schema";
+import { deviceZone } from "../timezone";
+
+const NOW = "2026-02-01T12:00:00.000Z";
+const EARLIER = "2025-12-01T08:00:00.000Z";
+
+const night: Night = {
+  date: "2026-01-10",
+  sleep_start: "2026-01-09T23:00:00.000Z",
+  sleep_end: "2026-01-10T07:00:00.000Z",
+};
+
+const step = (to: number) => {
+  const m = MIGRATIONS.find((m) => m.to === to);
+  assert.ok(m, `no migration to v${to}`);
+  return (doc: unknown) => m.up(doc, NOW) as StoredDoc;
+};
+
+/* ---------------- steps ---------------- */
+
+test("v0 -> v1 wraps the bare night list in an envelope", () => {
+  assert.deepEqual(step(1)([night]), {
+    schemaVersion: 1,
+    createdAt: NOW,
+    updatedAt: NOW,
+    nights: [night],
+    moods: [],
+    settings: {},
+  });
+});
+
+test("v1 -> v2 gives nights and moods ids, keeping existing ones", () => {
+  const doc = step(2)({
+    schemaVersion: 1,
+    createdAt: EARLIER,
+    updatedAt: EARLIER,
+    nights: [night, { ...night, id: "kept" }],
+    moods: [{ mood: "calm", at: NOW }],
+  });
+  assert.equal(doc.schemaVersion, 2);
+  assert.equal(doc.createdAt, EARLIER);
+  assert.equal(typeof doc.nights[0].id, "string");
+  assert.equal(doc.nights[1].id, "kept");
+  assert.equal(typeof doc.moods[0].id, "string");
+  assert.deepEqual(doc.settings, {});
+});
+
+test("v2 -> v3 records a zone only for nights without one", () => {
+  const doc = step(3)({
+    schemaVersion: 2,
+    nights: [
+      { ...night, id: "a" },
+      { ...night, id: "b", tz: "Europe/Berlin" },
+      { ...night, id: "c", utc_offset_min: 330 },
+    ],
+    moods: [],
+    settings: { musicOn: false },
+  });
+  assert.equal(doc.schemaVersion, 3);
+  const { tz, utc_offset_min } = deviceZone(new Date(night.sleep_end));
+  assert.equal(doc.nights[0].tz, tz);
+  assert.equal(doc.nights[0].utc_offset_min, utc_offset_min);
+  assert.equal(doc.nights[1].tz, "Europe/Berlin");
+  assert.equal(doc.nights[1].utc_offset_min, undefined);
+  assert.equal(doc.nights[2].utc_offset_min, 330);
+  assert.deepEqual(doc.settings, { musicOn: false });
+});
+
+test("v3 -> v4 adds an empty trial decision log", () => {
+  const doc = step(4)({ schemaVersion: 3, nights: [], moods: [] });
+  assert.equal(doc.schemaVersion, 4);
+  assert.deepEqual(doc.decisions, []);
+});
+
+test("v4 -> v5 adds an empty inbox and keeps the decisions", () => {
+  const decision = { id: "scheduled-2026-01-10", at: NOW, arm: "none" };
+  const doc = step(5)({
+    schemaVersion: 4,
+    nights: [],
+    moods: [],
+    decisions: [decision],
+  });
+  assert.equal(doc.schemaVersion, 5);
+  assert.deepEqual(doc.decisions, [decision]);
+  assert.deepEqual(doc.inbox, []);
+});
+
+/* ---------------- runner ---------------- */
+
+test("a v0 list runs every step up to the current version", () => {
+  const { doc, from, applied } = migrate([night], NOW);
+  assert.equal(from, 0);
+  assert.deepEqual(applied.map((m) => m.to), [1, 2, 3, 4, 5]);
+  assert.equal(doc.schemaVersion, SCHEMA_VERSION);
+  assert.equal(doc.nights.length, 1);
+  assert.ok(doc.nights[0].id);
+  assert.deepEqual(doc.moods, []);
+  assert.deepEqual(doc.decisions, []);
+  assert.deepEqual(doc.inbox, []);
+});
+
+test("nothing stored yet gives an empty document", () => {
+  const { doc, applied } = migrate(null, NOW);
+  assert.deepEqual(doc, emptyDoc(NOW));
+  assert.deepEqual(applied, []);
+});
+
+test("a current document is left as it is", () => {
+  const stored = { ...emptyDoc(EARLIER), nights: [{ ...night, id: "a" }] };
+  const { doc, applied } = migrate(stored, NOW);
+  assert.deepEqual(applied, []);
+  assert.deepEqual(doc, stored);
+});
+
+test("missing and null fields are filled in on the way up", () => {
+  const { doc } = migrate({ schemaVersion: 2, nights: null }, NOW);
+  assert.deepEqual(doc.nights, []);
+  assert.deepEqual(doc.moods, []);
+  assert.deepEqual(doc.decisions, []);
+  assert.deepEqual(doc.inbox, []);
+  assert.deepEqual(doc.settings, {});
+  assert.equal(doc.updatedAt, NOW);
+
+  const current = migrate({ schemaVersion: SCHEMA_VERSION }, NOW).doc;
+  assert.deepEqual(current.moods, []);
+  assert.deepEqual(current.inbox, []);
+});
+
+test("lists that are not lists of records are refused", () => {
+  assert.throws(
+    () => migrate({ schemaVersion: 2, nights: "oops" }, NOW),
+    SchemaError
+  );
+  assert.throws(
+    () => migrate({ schemaVersion: 4, nights: [], decisions: {} }, NOW),
+    SchemaError
+  );
+  assert.throws(() => migrate([1, 2], NOW), SchemaError);
+});
+
+test("data from a newer app is refused", () => {
+  assert.throws(
+    () => migrate({ schemaVersion: SCHEMA_VERSION + 1 }, NOW),
+    (e: unknown) =>
+      e instanceof SchemaError &&
+      e.message.includes(`v${SCHEMA_VERSION + 1}`)
+  );
+});
+
+test("an unreadable schema version is refused", () => {
+  for (const raw of [
+    {},
+    { schemaVersion: "2" },
+    { schemaVersion: -1 },
+    { schemaVersion: 1.5 },
+    "nights",
+    42,
+  ]) {
+    assert.throws(() => migrate(raw, NOW), SchemaError);
+  }
+});
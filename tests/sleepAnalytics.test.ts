@@ -0,0 +1,231 @@
+// sleepAnalytics.test.ts
+// The analytics contract: nights in, SleepSummary out. Nights carry a fixed
+// UTC offset, so the numbers do not depend on the machine's time zone.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Night } from "../storage";
+import {
+  analyzeSleep,
+  circularMeanMinuteOfDay,
+  clockDiff,
+  derive,
+  deriveAll,
+  fmtHM,
+  fmtMinutesAsHours,
+  riskTier,
+  summarize,
+} from "../sleepAnalytics";
+import { DEFAULT_SEED, ScenarioOptions, generateNights } from "../scenarios";
+import { night } from "./nights";
+
+const wakeDays = (count: number, last = "2026-01-20") =>
+  Array.from({ length: count }, (_, i) =>
+    new Date(Date.parse(`${last}T00:00:00Z`) - (count - 1 - i) * 864e5)
+      .toISOString()
+      .slice(0, 10)
+  );
+
+// Scenario nights on a fixed UTC clock, ending on a fixed day
+const UTC = { utc_offset_min: 0 };
+const scenario = (opts: ScenarioOptions = {}) =>
+  generateNights("steady", {
+    end: new Date("2026-03-01T12:00:00Z"),
+    zone: UTC,
+    ...opts,
+  });
+
+// The same nights `min` minutes later on the clock
+const later = (nights: Night[], min: number) => {
+  const move = (iso: string) =>
+    new Date(Date.parse(iso) + min * 60000).toISOString();
+  return nights.map((n) => ({
+    ...n,
+    sleep_start: move(n.sleep_start),
+    sleep_end: move(n.sleep_end),
+  }));
+};
+
+/* ---------------- clock arithmetic ---------------- */
+
+test("clockDiff takes the short way around midnight", () => {
+  assert.equal(clockDiff(30, 23 * 60 + 30), 60);
+  assert.equal(clockDiff(23 * 60 + 30, 30), -60);
+  assert.equal(clockDiff(180, 180), 0);
+});
+
+test("circular mean of clock times wraps at midnight", () => {
+  assert.equal(circularMeanMinuteOfDay([23 * 60 + 30, 30]), 0);
+  assert.equal(circularMeanMinuteOfDay([22 * 60, 23 * 60]), 22 * 60 + 30);
+  assert.equal(circularMeanMinuteOfDay([]), null);
+  // opposite times cancel out
+  assert.equal(circularMeanMinuteOfDay([0, 12 * 60]), null);
+});
+
+test("formatting", () => {
+  assert.equal(fmtHM(0), "12:00 AM");
+  assert.equal(fmtHM(13 * 60 + 5), "1:05 PM");
+  assert.equal(fmtHM(null), "n/a");
+  assert.equal(fmtMinutesAsHours(-90), "1.5 h");
+});
+
+/* ---------------- nights ---------------- */
+
+test("derive works out duration, midsleep and the wake day", () => {
+  const d = derive(night("2026-01-10", -60, 7 * 60));
+  assert.equal(d.duration_min, 8 * 60);
+  assert.equal(d.midsleep_clock, 3 * 60);
+  assert.equal(d.wake_day, "2026-01-10");
+  assert.equal(d.kind, "main");
+  assert.equal(d.sleep_efficiency, null);
+});
+
+test("derive uses the diary for total sleep and efficiency", () => {
+  const n = night("2026-01-10", 0, 8 * 60);
+  const inBed = new Date(Date.parse(n.sleep_start) - 30 * 60000);
+  const d = derive({
+    ...n,
+    diary: {
+      in_bed_at: inBed.toISOString(),
+      sol_min: 20,
+      waso_min: 40,
+    },
+  });
+  assert.equal(d.total_sleep_min, 8 * 60 - 60);
+  assert.equal(d.time_in_bed_min, 8 * 60 + 30);
+  assert.equal(d.sleep_efficiency, Math.round((420 / 510) * 100));
+});
+
+test("deriveAll keeps one main sleep per day; the rest are naps", () => {
+  const derived = deriveAll([
+    night("2026-01-10", -60, 7 * 60),
+    night("2026-01-10", 14 * 60, 15 * 60), // afternoon, short
+    night("2026-01-10", 8 * 60, 12 * 60), // a second, shorter "main"
+  ]);
+  assert.deepEqual(
+    derived.map((d) => d.kind),
+    ["nap", "nap", "main"] // most recent first
+  );
+});
+
+/* ---------------- summary ---------------- */
+
+test("too few nights is insufficient, with the reason", () => {
+  const s = analyzeSleep(wakeDays(2).map((day) => night(day, -60, 7 * 60)));
+  assert.equal(s.coverage, 2);
+  assert.equal(s.risk, "insufficient");
+  assert.match(s.reasons[0], /2 of 7 days/);
+});
+
+test("summary of a steady week with a late last night", () => {
+  const days = wakeDays(7);
+  const nights = days.map((day, i) =>
+    i === days.length - 1
+      ? night(day, 60, 9 * 60) // midsleep 05:00
+      : night(day, -60, 7 * 60) // midsleep 03:00
+  );
+  const s = analyzeSleep(nights);
+  assert.equal(s.coverage, 7);
+  assert.equal(s.windowStart, days[0]);
+  assert.ok(Math.abs(s.baselineMid! - (180 + 120 / 7)) <= 1);
+  assert.equal(s.recentLateness, 300 - s.baselineMid!);
+  assert.equal(s.direction, "later");
+  assert.equal(s.driftedNights, 1);
+  assert.equal(s.drift, true);
+  assert.equal(s.risk, "moderate");
+  assert.equal(s.nights[0].wake_day, days[6]);
+});
+
+test("nights outside the window do not count", () => {
+  const days = wakeDays(10);
+  const s = summarize(
+    deriveAll(days.map((day) => night(day, -60, 7 * 60))),
+    { windowDays: 5 }
+  );
+  assert.equal(s.coverage, 5);
+  assert.equal(s.baseline.length, 5);
+  assert.equal(s.windowStart, days[5]);
+});
+
+test("risk tiers scale with the drift threshold", () => {
+  assert.equal(riskTier(30, 1), "on_track");
+  assert.equal(riskTier(60, 1), "slight");
+  assert.equal(riskTier(100, 1), "moderate");
+  assert.equal(riskTier(200, 1), "high");
+  // a kept-up drift counts one tier higher
+  assert.equal(riskTier(60, 3), "moderate");
+  // drifting earlier never goes past moderate
+  assert.equal(riskTier(-200, 3), "moderate");
+  assert.equal(riskTier(45, 1, 30), "moderate");
+});
+
+/* ---------------- baseline as a clock time ---------------- */
+
+test("the seeded demo has a baseline near its 3 AM midpoint", () => {
+  const nights = scenario({ seed: DEFAULT_SEED });
+  const s = analyzeSleep(nights);
+  assert.equal(s.coverage, 7);
+  assert.equal(
+    s.baselineMid,
+    circularMeanMinuteOfDay(s.baseline.map((d) => d.midsleep_clock))
+  );
+  // in bed around 11 PM for 8 h, with 15 min of noise
+  assert.ok(Math.abs(clockDiff(s.baselineMid!, 3 * 60)) <= 20);
+  assert.equal(
+    s.recentLateness,
+    clockDiff(s.nights[0].midsleep_clock, s.baselineMid!)
+  );
+  assert.ok(Math.abs(s.recentLateness) < 45);
+  assert.equal(s.risk, "on_track");
+  // the same seed gives the same numbers
+  assert.deepEqual(analyzeSleep(scenario({ seed: DEFAULT_SEED })), s);
+});
+
+test("a sleeper whose midpoint straddles midnight averages to midnight", () => {
+  // 8 PM to 4 AM with noise: midpoints fall both sides of midnight
+  const s = analyzeSleep(later(scenario(), -3 * 60));
+  const clocks = s.baseline.map((d) => d.midsleep_clock);
+  assert.ok(clocks.some((m) => m > 12 * 60));
+  assert.ok(clocks.some((m) => m < 12 * 60));
+  assert.ok(Math.abs(clockDiff(s.baselineMid!, 0)) <= 20);
+  assert.ok(Math.abs(s.recentLateness) < 45);
+  assert.ok(s.regularityLoss < 7 * 45);
+  assert.equal(s.risk, "on_track");
+
+  // exact: midpoints of 11:30 PM and 12:30 AM in turn
+  const days = wakeDays(6);
+  const exact = analyzeSleep(
+    days.map((day, i) =>
+      i % 2 === 0 ? night(day, -270, 210) : night(day, -210, 270)
+    )
+  );
+  assert.equal(exact.baselineMid, 0);
+  assert.equal(exact.recentLateness, 30);
+  assert.equal(exact.regularityLoss, 6 * 30);
+});
+
+test("a 3 AM sleeper is measured in minutes, not days", () => {
+  // in bed at 3 AM, up at 11 AM; no noise, so the numbers are exact
+  const steady = later(
+    scenario({ timingNoiseMin: 0, durationNoiseMin: 0 }),
+    4 * 60
+  );
+  const s = analyzeSleep(steady);
+  assert.equal(s.baselineMid, 7 * 60);
+  assert.equal(s.recentLateness, 0);
+  assert.equal(s.regularityLoss, 0);
+  // the night belongs to the day it ended on, which is also its start day
+  assert.equal(s.nights[0].wake_day, "2026-03-01");
+  assert.equal(s.nights[0].date, "2026-03-01");
+
+  // last night two hours later
+  const last = steady.length - 1;
+  const late = analyzeSleep([
+    ...steady.slice(0, last),
+    ...later(steady.slice(last), 2 * 60),
+  ]);
+  assert.ok(late.baselineMid! > 7 * 60 && late.baselineMid! < 8 * 60);
+  assert.equal(late.recentLateness, 9 * 60 - late.baselineMid!);
+  assert.equal(late.direction, "later");
+  assert.equal(late.risk, "moderate");
+});
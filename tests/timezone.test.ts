@@ -0,0 +1,195 @@
+// timezone.test.ts
+// Clock times in the zone a night was slept in: DST changes, travel across
+// zones and the local wake day. Nights come from the scenario generator with
+// an explicit zone, so the results do not depend on the machine's.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Night } from "../storage";
+import { analyzeSleep, derive } from "../sleepAnalytics";
+import { ScenarioOptions, generateNights } from "../scenarios";
+import {
+  ZoneRef,
+  deviceZone,
+  epochFromLocal,
+  fileZone,
+  importZone,
+  localDayStart,
+  offsetAt,
+  offsetFromIso,
+} from "../timezone";
+
+const NEW_YORK = { tz: "America/New_York" };
+const BERLIN = { tz: "Europe/Berlin" };
+const TOKYO = { tz: "Asia/Tokyo" };
+
+// In bed at 11 PM for exactly 8 h on `zone`'s clock, up to `end`
+const steady = (zone: ZoneRef, end: string, opts: ScenarioOptions = {}) =>
+  generateNights("steady", {
+    end: new Date(end),
+    zone,
+    timingNoiseMin: 0,
+    durationNoiseMin: 0,
+    ...opts,
+  });
+
+const clocks = (nights: Night[]) =>
+  nights.map((n) => derive(n).midsleep_clock);
+
+// The instant showing `hhmm` on `day` on the zone's clock
+const instant = (day: string, hhmm: string, zone: ZoneRef) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  const local = localDayStart(day) + h * 60 + m;
+  return new Date(epochFromLocal(local, zone) * 60000).toISOString();
+};
+
+/* ---------------- DST ---------------- */
+
+test("offsets follow the DST changes of the zone", () => {
+  const at = (iso: string) => offsetAt(new Date(iso), NEW_YORK.tz);
+  assert.equal(at("2026-03-08T06:59:00Z"), -300);
+  assert.equal(at("2026-03-08T07:00:00Z"), -240);
+  assert.equal(at("2026-11-01T05:59:00Z"), -240);
+  assert.equal(at("2026-11-01T06:00:00Z"), -300);
+});
+
+test("skipped wall times move past a jump; repeats take the first", () => {
+  // 2:30 AM does not exist on the spring-forward morning
+  assert.equal(
+    instant("2026-03-08", "02:30", NEW_YORK),
+    "2026-03-08T07:30:00.000Z" // 3:30 AM EDT
+  );
+  assert.equal(
+    instant("2026-03-29", "02:30", BERLIN),
+    "2026-03-29T01:30:00.000Z" // 3:30 AM CEST
+  );
+  // and happens twice on the fall-back morning
+  assert.equal(
+    instant("2026-11-01", "01:30", NEW_YORK),
+    "2026-11-01T05:30:00.000Z" // EDT, not EST
+  );
+  assert.equal(
+    instant("2026-10-25", "02:30", BERLIN),
+    "2026-10-25T00:30:00.000Z" // CEST, not CET
+  );
+  // fixed offsets have no changes
+  assert.equal(
+    instant("2026-03-01", "23:00", { utc_offset_min: 330 }),
+    "2026-03-01T17:30:00.000Z"
+  );
+});
+
+test("spring forward: the same bedtime is not read as drift", () => {
+  const nights = steady(NEW_YORK, "2026-03-11T18:00:00Z", { days: 7 });
+  assert.deepEqual(
+    nights.map((n) => n.utc_offset_min),
+    [-300, -300, -300, -240, -240, -240, -240]
+  );
+  // 11 PM in UTC moves an hour earlier, but stays 11 PM on the clock
+  assert.equal(nights[0].sleep_start, "2026-03-05T04:00:00.000Z");
+  assert.equal(nights[6].sleep_start, "2026-03-11T03:00:00.000Z");
+  // only the change night, an hour short on the clock, reads differently
+  assert.deepEqual(clocks(nights), [180, 180, 180, 240, 180, 180, 180]);
+
+  const s = analyzeSleep(nights);
+  assert.ok(Math.abs(s.baselineMid! - 180) <= 10);
+  assert.equal(s.recentLateness, 180 - s.baselineMid!);
+  assert.equal(s.driftedNights, 0);
+  assert.equal(s.risk, "on_track");
+});
+
+test("fall back: the same bedtime is not read as drift", () => {
+  const nights = steady(NEW_YORK, "2026-11-04T18:00:00Z", { days: 7 });
+  assert.deepEqual(clocks(nights), [180, 180, 180, 120, 180, 180, 180]);
+  const s = analyzeSleep(nights);
+  assert.ok(Math.abs(s.baselineMid! - 180) <= 10);
+  assert.equal(s.driftedNights, 0);
+  assert.equal(s.risk, "on_track");
+});
+
+/* ---------------- travel ---------------- */
+
+test("flying Berlin to New York keeps 11 PM on the local clock", () => {
+  const nights = [
+    ...steady(BERLIN, "2026-03-01T12:00:00Z", { days: 4 }),
+    ...steady(NEW_YORK, "2026-03-04T18:00:00Z", { days: 3 }),
+  ];
+  // six hours apart in UTC...
+  assert.equal(nights[3].sleep_start, "2026-02-28T22:00:00.000Z");
+  assert.equal(nights[4].sleep_start, "2026-03-02T04:00:00.000Z");
+  // ...but the same on each night's own clock
+  assert.deepEqual(clocks(nights), Array(7).fill(180));
+
+  const s = analyzeSleep(nights);
+  assert.equal(s.coverage, 7);
+  assert.equal(s.baselineMid, 180);
+  assert.equal(s.recentLateness, 0);
+  assert.equal(s.regularityLoss, 0);
+  assert.equal(s.risk, "on_track");
+});
+
+/* ---------------- wake day ---------------- */
+
+test("a night belongs to the day it ended on, on its own clock", () => {
+  const nights = steady(TOKYO, "2026-03-01T12:00:00Z", { days: 3 });
+  const last = nights[nights.length - 1];
+  // 7 AM in Tokyo on 1 March is still 28 February in UTC
+  assert.equal(last.sleep_end, "2026-02-28T22:00:00.000Z");
+  assert.equal(last.date, "2026-03-01");
+  assert.deepEqual(
+    nights.map((n) => derive(n).wake_day),
+    nights.map((n) => n.date)
+  );
+  // the same instants slept in Los Angeles end a day earlier
+  assert.equal(
+    derive({ ...last, tz: "America/Los_Angeles" }).wake_day,
+    "2026-02-28"
+  );
+  // without a zone name, the recorded offset decides
+  assert.equal(
+    derive({ ...last, tz: undefined, utc_offset_min: 540 }).wake_day,
+    "2026-03-01"
+  );
+});
+
+test("a 3 AM bedtime belongs to the day it started on", () => {
+  const start = instant("2026-03-01", "03:00", NEW_YORK);
+  const end = instant("2026-03-01", "11:00", NEW_YORK);
+  const d = derive({
+    date: "2026-03-01",
+    sleep_start: start,
+    sleep_end: end,
+    ...NEW_YORK,
+  });
+  assert.equal(d.wake_day, "2026-03-01");
+  assert.equal(d.midsleep_clock, 7 * 60);
+});
+
+/* ---------------- stamping ---------------- */
+
+test("offsets are read from ISO timestamps", () => {
+  assert.equal(offsetFromIso("2026-03-01T07:00:00Z"), 0);
+  assert.equal(offsetFromIso("2026-03-01T07:00:00+05:30"), 330);
+  assert.equal(offsetFromIso("2026-03-01T07:00:00-0500"), -300);
+  assert.equal(offsetFromIso("2026-03-01 07:00"), null);
+});
+
+test("zones read back from a file", () => {
+  const end = new Date("2026-07-01T06:00:00Z");
+  assert.deepEqual(fileZone({ tz: "Europe/Berlin" }, end, null), {
+    tz: "Europe/Berlin",
+    utc_offset_min: 120,
+  });
+  // an unknown zone name falls back to the recorded offset
+  assert.deepEqual(
+    fileZone({ tz: "Mars/Olympus", utc_offset_min: "-420" }, end, null),
+    { utc_offset_min: -420 }
+  );
+  // nothing usable: the device zone, as for any import
+  assert.deepEqual(
+    fileZone({ tz: "", utc_offset_min: 9999 }, end, null),
+    deviceZone(end)
+  );
+  assert.deepEqual(importZone(end, null), deviceZone(end));
+  assert.deepEqual(importZone(end, 0), deviceZone(end));
+});
@@ -0,0 +1,165 @@
+// timezone.ts
+// Wall-clock time in the zone a night was slept in. Nights keep their instants
+// in UTC and record where they were slept (Night.tz, or a fixed
+// Night.utc_offset_min when only the offset is known), so clock times, wake
+// days and midsleep comparisons stay right across DST changes and travel.
+// "Local minutes" below are minutes since 1970-01-01 00:00 on that wall clock.
+
+const MINUTES_PER_DAY = 24 * 60;
+// UTC-12 .. UTC+14 covers every zone in use
+const MAX_OFFSET_MIN = 14 * 60;
+
+// Where a night was slept; with neither field set, the device zone is assumed
+export type ZoneRef = { tz?: string; utc_offset_min?: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function formatterFor(tz: string): Intl.DateTimeFormat | null {
+  if (!formatters.has(tz)) {
+    try {
+      formatters.set(
+        tz,
+        new Intl.DateTimeFormat("en-US", {
+          timeZone: tz,
+          hourCycle: "h23",
+          year: "numeric",
+          month: "2-digit",
+          day: "2-digit",
+          hour: "2-digit",
+          minute: "2-digit",
+        })
+      );
+    } catch {
+      formatters.set(tz, null); // unknown zone
+    }
+  }
+  return formatters.get(tz) ?? null;
+}
+
+export function deviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export const isValidTimeZone = (tz: unknown): tz is string =>
+  typeof tz === "string" && tz !== "" && formatterFor(tz) != null;
+
+// Minutes east of UTC in `tz` at `date`; the device offset without a zone,
+// NaN for an invalid date
+export function offsetAt(date: Date, tz?: string): number {
+  const fmt = tz ? formatterFor(tz) : null;
+  if (!fmt || Number.isNaN(date.getTime())) return -date.getTimezoneOffset();
+
+  const parts: Record<string, number> = {};
+  for (const p of fmt.formatToParts(date)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour % 24,
+    parts.minute
+  );
+  return Math.round((wall - date.getTime()) / 60000);
+}
+
+export function zoneOffsetAt(ref: ZoneRef, date: Date): number {
+  if (isValidTimeZone(ref.tz)) return offsetAt(date, ref.tz);
+  if (ref.utc_offset_min != null) return ref.utc_offset_min;
+  return offsetAt(date);
+}
+
+/* ---------------- conversions ---------------- */
+
+export const localMinutes = (date: Date, ref: ZoneRef) =>
+  Math.floor(date.getTime() / 60000) + zoneOffsetAt(ref, date);
+
+// Epoch minute showing `local` on the zone's clock. Wall times skipped by a
+// DST jump land just after it; repeated ones resolve to the first.
+export function epochFromLocal(local: number, ref: ZoneRef): number {
+  // the offsets in force a day either side cover any single DST change
+  const offsetNear = (min: number) =>
+    zoneOffsetAt(ref, new Date((local + min) * 60000));
+  const candidates = [
+    local - offsetNear(-MINUTES_PER_DAY),
+    local - offsetNear(MINUTES_PER_DAY),
+  ];
+  const shown = candidates.filter(
+    (epoch) => localMinutes(new Date(epoch * 60000), ref) === local
+  );
+  // skipped: the earlier offset moves the time past the jump
+  return shown.length > 0 ? Math.min(...shown) : Math.max(...candidates);
+}
+
+export const clockOf = (local: number) =>
+  ((local % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+// YYYY-MM-DD and weekday (0 = Sunday) of a local minute; "" when the time
+// could not be read (see dataQuality.ts)
+export const dayOf = (local: number) =>
+  Number.isFinite(local)
+    ? new Date(local * 60000).toISOString().slice(0, 10)
+    : "";
+
+export const weekdayOf = (local: number) =>
+  new Date(local * 60000).getUTCDay();
+
+// Local minute of midnight starting a YYYY-MM-DD day
+export const localDayStart = (day: string) =>
+  Date.parse(`${day}T00:00:00Z`) / 60000;
+
+/* ---------------- stamping ---------------- */
+
+// The device zone, for nights recorded or entered on this phone
+export function deviceZone(at = new Date()): ZoneRef {
+  const tz = deviceTimeZone();
+  return { ...(tz ? { tz } : {}), utc_offset_min: offsetAt(at, tz) };
+}
+
+// "…Z" -> 0, "…+02:00" / "…-0500" -> minutes east of UTC, none -> null
+export function offsetFromIso(text: string): number | null {
+  const m = /(Z|([+-])(\d{2}):?(\d{2}))$/.exec(text.trim());
+  if (!m) return null;
+  if (m[1] === "Z") return 0;
+  const min = Number(m[3]) * 60 + Number(m[4]);
+  return m[2] === "-" ? -min : min;
+}
+
+// Zone for an imported night. An explicit offset that differs from this
+// device's is kept as a fixed offset; otherwise the device zone is assumed,
+// which also covers UTC ("Z") timestamps from trackers that store UTC.
+export function importZone(end: Date, explicitOffset: number | null): ZoneRef {
+  const device = deviceZone(end);
+  if (
+    explicitOffset == null ||
+    explicitOffset === 0 ||
+    explicitOffset === device.utc_offset_min
+  ) {
+    return device;
+  }
+  return { utc_offset_min: explicitOffset };
+}
+
+// Zone fields read back from a file (our own exports carry tz and
+// utc_offset_min); falls back to importZone when they are missing or invalid
+export function fileZone(
+  raw: { tz?: unknown; utc_offset_min?: unknown },
+  end: Date,
+  explicitOffset: number | null
+): ZoneRef {
+  if (isValidTimeZone(raw.tz)) {
+    return { tz: raw.tz, utc_offset_min: offsetAt(end, raw.tz) };
+  }
+  const offset =
+    raw.utc_offset_min == null || raw.utc_offset_min === ""
+      ? NaN
+      : Number(raw.utc_offset_min);
+  if (Number.isInteger(offset) && Math.abs(offset) <= MAX_OFFSET_MIN) {
+    return { utc_offset_min: offset };
+  }
+  return importZone(end, explicitOffset);
+}